@@ -1,38 +1,61 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { MedicalSpecialty, ExamType, ClinicalComplexity, QuizSession, Question, HistoricalSession, SRSState, SRSRating, MasteryCard, StudyPlan, LifetimeStats } from './types';
-import { generateQuestions, generateSimilarQuestions, generateMasteryCards, generateSessionSummary, generateStudyGuide } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { MedicalSpecialty, ExamType, ClinicalComplexity, QuizSession, Question, HistoricalSession, SRSState, SRSRating, MasteryCard, StudyPlan, LifetimeStats, UsageFeature, QuizMode, QuestionAnnotations, Confidence, LibraryBlockOptions, ExamAttempt, ExamItem } from './types';
+import { generateQuestionsIncrementally, generateSimilarQuestions, generateMasteryCards, deepDiveExplanation, generateSessionSummary, generateStudyGuide, isProviderConfigured, loadProviderSettings } from './services/aiService';
 import { dbService } from './services/databaseService';
-import { QuizSetup } from './components/QuizSetup';
+import { resolveAgainstLibrary } from './services/questionIdentity';
+import { migrateSessionIds } from './services/migrations';
+import { closeVisit, pauseVisit, resumeVisit, recordAnswer, suspendBlock, unsuspendBlock, blockElapsedMs } from './services/sessionTiming';
+import { drawFromPool, getPoolSize, schedulePoolRefill } from './services/questionPool';
+import { matchLibrary } from './services/libraryBlocks';
+import { SimulatedExamType, createExamAttempt, endBreak, examPrepJobId, nextBlockNumber, shuffleItems } from './services/examSimulation';
+import { jobQueue, isAbortError } from './services/jobQueue';
+import { notifications, notifyAIError } from './services/notificationService';
+import { checkBudget, formatTokens } from './services/usageService';
+import { QuizSetup, TIMED_SECONDS_PER_QUESTION } from './components/QuizSetup';
 import { QuestionCard } from './components/QuestionCard';
+import { BlockNavigator } from './components/BlockNavigator';
 import { ResultsView } from './components/ResultsView';
 import { BookmarksView } from './components/BookmarksView';
 import { AnalyticsView } from './components/AnalyticsView';
 import { SRSReview } from './components/SRSReview';
-import { Button } from './components/Button';
-
-// Extend Window interface for AI Studio helpers
-declare global {
-  interface AIStudio {
-    openSelectKey: () => Promise<void>;
-    hasSelectedApiKey: () => Promise<boolean>;
-  }
-  interface Window {
-    aistudio?: AIStudio;
-  }
+import { SettingsView } from './components/SettingsView';
+import { JobTray } from './components/JobTray';
+import { NotificationCenter } from './components/NotificationCenter';
+import { ExamLobby } from './components/ExamLobby';
+import { ExamReport } from './components/ExamReport';
+import { HistoryView } from './components/HistoryView';
+import { SessionReview } from './components/SessionReview';
+import { canDelete, canMerge, mergeSessions } from './services/historyEdits';
+
+interface BlockConfig {
+  blockId: string;
+  specialties: MedicalSpecialty[];
+  examTypes: ExamType[];
+  complexity: ClinicalComplexity;
+  count: number;
+  topics: string;
+  autoReinforce: boolean;
+  mode: QuizMode;
+  examAttemptId?: string;
+  examBlockNumber?: number;
+  itemSpecialties?: Record<string, MedicalSpecialty>;
 }
 
+// The stored selection only counts while it belongs to the item on screen; otherwise the committed answer shows
+const selectionOf = (s: QuizSession): number | null =>
+  s.selection?.questionIndex === s.currentQuestionIndex ? s.selection.answer : s.userAnswers[s.currentQuestionIndex] ?? null;
+
 const App: React.FC = () => {
-  const [view, setView] = useState<'setup' | 'quiz' | 'results' | 'bookmarks' | 'analytics' | 'srs'>('setup');
+  const [view, setView] = useState<'setup' | 'quiz' | 'results' | 'bookmarks' | 'analytics' | 'srs' | 'settings' | 'exam' | 'examReport' | 'history' | 'review'>('setup');
   const [isReady, setIsReady] = useState(false);
   
   // States
   const [session, setSession] = useState<QuizSession | null>(null);
+  const [suspendedBlocks, setSuspendedBlocks] = useState<QuizSession[]>([]);
   const [completedSession, setCompletedSession] = useState<QuizSession | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [backgroundProcessing, setBackgroundProcessing] = useState(false);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [hasKey, setHasKey] = useState<boolean>(true);
   const [isExporting, setIsExporting] = useState(false);
   const [bookmarks, setBookmarks] = useState<Question[]>([]);
   const [masteryCards, setMasteryCards] = useState<Record<string, MasteryCard[]>>({});
@@ -41,6 +64,17 @@ const App: React.FC = () => {
   const [questionLibrary, setQuestionLibrary] = useState<Record<string, Question>>({});
   const [studyPlan, setStudyPlan] = useState<StudyPlan | null>(null);
   const [lifetimeStats, setLifetimeStats] = useState<LifetimeStats | undefined>(undefined);
+  const [examAttempts, setExamAttempts] = useState<ExamAttempt[]>([]);
+  const [reportAttemptId, setReportAttemptId] = useState<string | null>(null);
+  const [reviewSessionId, setReviewSessionId] = useState<string | null>(null);
+  // Read by the background pool refill and job handlers, which outlive individual renders
+  const libraryRef = useRef(questionLibrary);
+  libraryRef.current = questionLibrary;
+  // Lets the timed-block deadline submit whatever the session holds at that moment
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const examAttemptsRef = useRef(examAttempts);
+  examAttemptsRef.current = examAttempts;
   
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -50,7 +84,7 @@ const App: React.FC = () => {
     return false;
   });
 
-  // Database Initialization & Key Check
+  // Database Initialization
   useEffect(() => {
     const initData = async () => {
       await dbService.init();
@@ -63,15 +97,32 @@ const App: React.FC = () => {
       setQuestionLibrary(data.questionLibrary);
       setStudyPlan(data.studyPlan);
       setLifetimeStats(data.lifetimeStats);
-
-      // Restore active session from localStorage
-      const savedSession = localStorage.getItem('abdu_active_session');
-      if (savedSession) setSession(JSON.parse(savedSession));
-
-      // Check API Key status
-      if (window.aistudio) {
-        const has = await window.aistudio.hasSelectedApiKey();
-        setHasKey(has);
+      setExamAttempts(data.examAttempts);
+      // Preparation for an exam that has since ended has no block to fill
+      jobQueue.getJobs()
+        .filter(j => j.kind === 'examBlock' && !data.examAttempts.some(a => a.id === j.payload.attemptId && !a.completedAt))
+        .forEach(j => jobQueue.cancel(j.id));
+
+      // Restore the active block, including one left in localStorage by builds before blocks moved to IndexedDB
+      const legacySession = localStorage.getItem('abdu_active_session');
+      localStorage.removeItem('abdu_active_session');
+      const restored = await dbService.get<QuizSession>('activeSession') || (legacySession ? migrateSessionIds(JSON.parse(legacySession)) : null);
+      const suspended = await dbService.get<QuizSession[]>('suspendedBlocks') || [];
+      // Block generation resumes from the job queue; jobs for blocks that are gone have nothing left to fill
+      const blockJobs = jobQueue.getJobs().filter(j => j.kind === 'block');
+      const blockIds = [restored, ...suspended].map(b => b?.id);
+      blockJobs.filter(j => j.payload.delivered > 0 && !blockIds.includes(j.payload.blockId)).forEach(j => jobQueue.cancel(j.id));
+      // A block still waiting for its first questions would open over whatever the user resumed, and an export would
+      // download its file a second time, so neither restarts unasked; failed ones stay in the tray for a manual retry
+      jobQueue.getJobs()
+        .filter(j => j.status === 'queued' && ((j.kind === 'block' && !j.payload.delivered) || j.kind === 'export'))
+        .forEach(j => jobQueue.cancel(j.id));
+      const withJobState = (block: QuizSession): QuizSession => ({ ...block, pendingCount: blockJobs.some(j => j.payload.blockId === block.id) ? block.pendingCount : 0 });
+      setSuspendedBlocks(suspended.map(withJobState));
+      // The restored block starts paused; its clock resumes once it is back on screen
+      if (restored) {
+        setSession(pauseVisit(withJobState(restored)));
+        setSelectedAnswer(selectionOf(restored));
       }
 
       setIsReady(true);
@@ -85,11 +136,25 @@ const App: React.FC = () => {
   useEffect(() => { if (isReady) dbService.set('srsStates', srsStates); }, [srsStates, isReady]);
   useEffect(() => { if (isReady) dbService.set('questionLibrary', questionLibrary); }, [questionLibrary, isReady]);
   useEffect(() => { if (isReady) dbService.set('studyPlan', studyPlan); }, [studyPlan, isReady]);
+  useEffect(() => { if (isReady) dbService.set('examAttempts', examAttempts); }, [examAttempts, isReady]);
+
+  useEffect(() => { if (isReady) dbService.set('activeSession', session); }, [session, isReady]);
+  useEffect(() => { if (isReady) dbService.set('suspendedBlocks', suspendedBlocks); }, [suspendedBlocks, isReady]);
 
+  // Prefetch questions while idle, pausing whenever a block is being generated live
+  const isGenerating = isLoading || !!session?.pendingCount || suspendedBlocks.some(b => b.pendingCount);
   useEffect(() => {
-    if (session) localStorage.setItem('abdu_active_session', JSON.stringify(session));
-    else localStorage.removeItem('abdu_active_session');
-  }, [session]);
+    if (!isReady || isGenerating) return;
+    return schedulePoolRefill(() => libraryRef.current);
+  }, [isReady, isGenerating]);
+
+  // Per-question time only accrues while the block is visible
+  useEffect(() => {
+    const sync = () => setSession(prev => prev && (view === 'quiz' && !document.hidden ? resumeVisit(prev) : pauseVisit(prev)));
+    sync();
+    document.addEventListener('visibilitychange', sync);
+    return () => document.removeEventListener('visibilitychange', sync);
+  }, [view]);
 
   useEffect(() => {
     if (isDarkMode) document.documentElement.classList.add('dark');
@@ -102,36 +167,19 @@ const App: React.FC = () => {
     localStorage.setItem('theme', nextMode ? 'dark' : 'light');
   };
 
-  const handleError = async (error: any) => {
-    const errorMsg = error?.message || JSON.stringify(error);
-    const status = error?.status || error?.error?.code;
-
-    // Handle 403 (Permission Denied) - Likely missing or invalid key
-    if (status === 403 || errorMsg.includes("403") || errorMsg.includes("PERMISSION_DENIED")) {
-      setHasKey(false);
-      if (window.aistudio) {
-        try {
-          await window.aistudio.openSelectKey();
-          setHasKey(true);
-        } catch (e) {
-          console.error("Key selection failed", e);
-        }
-      }
-      alert("Permission Denied: Please select a valid API Key with Gemini API access enabled.");
-      return;
-    }
-
-    // Handle 429 (Rate Limit)
-    if (status === 429 || errorMsg.includes("429")) {
-      setHasKey(false);
-      alert("API Quota Reached. Please activate your key or wait 60s.");
-      return;
-    }
+  const handleError = (error: unknown, retry?: () => void) => {
+    notifyAIError(error, { onRetry: retry, onOpenSettings: () => setView('settings') });
+  };
 
-    console.error(error);
-    if (isLoading) alert("API Error. Please try again.");
+  // Asks before an operation that would overrun today's token budget; within budget it passes silently
+  const confirmWithinBudget = async (feature: UsageFeature, units: number, description: string): Promise<boolean> => {
+    const warning = await checkBudget(feature, units, loadProviderSettings());
+    return !warning || window.confirm(`${description} needs about ${formatTokens(warning.estimatedTokens)} tokens, but only ${formatTokens(warning.remainingTokens)} remain in today's ${warning.budgetLabel} budget. Continue anyway?`);
   };
 
+  const analyticsHistory = useMemo(() => history.filter(h => !h.excludedFromAnalytics), [history]);
+  const libraryIndex = useMemo(() => ({ library: questionLibrary, history, bookmarkIds: bookmarks.map(b => b.id) }), [questionLibrary, history, bookmarks]);
+
   const addToLibrary = (questions: Question[]) => {
     setQuestionLibrary(prev => {
       const next = { ...prev };
@@ -161,26 +209,101 @@ const App: React.FC = () => {
     });
   }, []);
 
+  const addToSRS = (q: Question) => {
+    addToLibrary([q]);
+    setSrsStates(prev => {
+      if (prev[q.id]) return prev;
+      return { ...prev, [q.id]: { cardId: q.id, nextReview: Date.now(), interval: 0, ease: 2.3, repetitions: 0 } };
+    });
+  };
+
   const toggleBookmark = (q: Question) => {
     const isAlreadyBookmarked = bookmarks.some(b => b.id === q.id);
     if (isAlreadyBookmarked) setBookmarks(prev => prev.filter(b => b.id !== q.id));
     else {
       setBookmarks(prev => [...prev, q]);
-      addToLibrary([q]);
-      setSrsStates(prev => {
-        if (prev[q.id]) return prev;
-        return { ...prev, [q.id]: { cardId: q.id, nextReview: Date.now(), interval: 0, ease: 2.3, repetitions: 0 } };
-      });
+      addToSRS(q);
     }
   };
 
   const dissectQuestion = async (q: Question) => {
-    if (masteryCards[q.id]) return;
+    const jobId = `mastery-${q.id}`;
+    if (masteryCards[q.id] || jobQueue.getJob(jobId)?.status === 'running') return;
     try {
-      const layers = await generateMasteryCards(q);
-      setMasteryCards(prev => ({ ...prev, [q.id]: layers }));
-      layers.forEach(card => updateSRS(card.id, 'again'));
-    } catch (err) { handleError(err); }
+      await jobQueue.enqueue('mastery', 'Mastery cards', { question: q }, jobId);
+    } catch (err) { handleError(err, () => dissectQuestion(q)); }
+  };
+
+  // Moves the block on screen to the suspended list; job handlers call this too, so it reads the session through the ref
+  const suspendCurrent = () => {
+    const current = sessionRef.current;
+    if (!current) return;
+    const suspended = { ...suspendBlock(current), id: current.id || crypto.randomUUID() };
+    setSuspendedBlocks(prev => [suspended, ...prev.filter(b => b.id !== suspended.id)]);
+    setSession(null);
+    setSelectedAnswer(null);
+  };
+
+  // Background work for a block lands on it whether it is on screen or suspended
+  const updateBlock = (blockId: string, update: (block: QuizSession) => QuizSession) => {
+    setSession(prev => prev && prev.id === blockId ? update(prev) : prev);
+    setSuspendedBlocks(prev => prev.some(b => b.id === blockId) ? prev.map(b => b.id === blockId ? update(b) : b) : prev);
+  };
+
+  const suspendSession = () => {
+    suspendCurrent();
+    setView('setup');
+    notifications.notify({ tone: 'info', title: 'Block Suspended', message: 'Its clock is stopped. Resume it from the setup screen.' });
+  };
+
+  const resumeSuspended = (block: QuizSession) => {
+    if (block === session) return setView('quiz');
+    suspendCurrent();
+    setSuspendedBlocks(prev => prev.filter(b => b.id !== block.id));
+    const resumed = unsuspendBlock(block);
+    setSession(resumed);
+    setSelectedAnswer(selectionOf(resumed));
+    setView('quiz');
+  };
+
+  const discardBlock = (block: QuizSession) => {
+    if (block.id) jobQueue.cancel(block.id);
+    if (block === session) {
+      setSession(null);
+      setSelectedAnswer(null);
+    } else setSuspendedBlocks(prev => prev.filter(b => b !== block));
+  };
+
+  const beginBlock = (config: BlockConfig, questions: Question[]) => {
+    addToLibrary(questions);
+    // Starting another block suspends the one in progress rather than replacing it
+    suspendCurrent();
+    const startTime = Date.now();
+    setSession({ 
+      id: config.blockId,
+      mode: config.mode,
+      deadline: config.mode === 'timed' ? startTime + config.count * TIMED_SECONDS_PER_QUESTION * 1000 : undefined,
+      questions, 
+      pendingCount: Math.max(0, config.count - questions.length),
+      currentQuestionIndex: 0, 
+      userAnswers: [], 
+      startTime, 
+      timings: {},
+      visitStartedAt: startTime,
+      specialties: config.specialties, 
+      examTypes: config.examTypes, 
+      complexity: config.complexity, 
+      topics: config.topics, 
+      skippedIds: [],
+      flaggedIds: [],
+      autoReinforce: config.autoReinforce,
+      examAttemptId: config.examAttemptId,
+      examBlockNumber: config.examBlockNumber,
+      itemSpecialties: config.itemSpecialties
+    });
+    setCompletedSession(null);
+    setView('quiz');
+    setIsLoading(false);
   };
 
   const startQuiz = async (
@@ -189,126 +312,420 @@ const App: React.FC = () => {
     complexity: ClinicalComplexity, 
     count: number, 
     topics: string, 
-    autoReinforce: boolean
+    autoReinforce: boolean,
+    mode: QuizMode,
+    library?: LibraryBlockOptions
   ) => {
-    // Check Key Validation
-    let currentHasKey = hasKey;
-    if (window.aistudio) {
-      currentHasKey = await window.aistudio.hasSelectedApiKey();
+    // Library items go first; a library-only block shrinks to what matched instead of generating the rest
+    const reused = library ? matchLibrary(library, libraryIndex).slice(0, Math.round(count * library.share)) : [];
+    const blockCount = library?.share === 1 ? reused.length : count;
+    const toGenerate = blockCount - reused.length;
+
+    // Provider must be configured (e.g. API key present) before we can generate
+    if (toGenerate > 0 && !isProviderConfigured()) {
+      setView('settings');
+      return;
     }
 
-    if (!currentHasKey) {
-      if (window.aistudio) {
-        try {
-          await window.aistudio.openSelectKey();
-          setHasKey(true);
-        } catch (e) {
-          console.error(e);
-          return;
-        }
-      } else {
-        setHasKey(true); // Fallback for dev environments without window.aistudio
-      }
-    }
-    
+    // Only what the library and the pool cannot cover costs tokens
+    const uncovered = toGenerate - (topics.trim() ? 0 : await getPoolSize(specialties, examTypes, complexity));
+    if (uncovered > 0 && !(await confirmWithinBudget('questions', uncovered, `This ${blockCount}-question block`))) return;
+
     setIsLoading(true);
+    const config: BlockConfig = { blockId: crypto.randomUUID(), specialties, examTypes, complexity, count: blockCount, topics, autoReinforce, mode };
+    let readyCount = 0;
     try {
-      const questions = await generateQuestions(specialties, examTypes, complexity, count, topics);
-      if (questions.length === 0) throw new Error("Empty response");
-      addToLibrary(questions);
-      setSession({ 
-        questions, 
-        currentQuestionIndex: 0, 
-        userAnswers: [], 
-        startTime: Date.now(), 
-        specialties, 
-        examTypes, 
-        complexity, 
-        topics, 
-        skippedIds: [],
-        autoReinforce
-      });
-      setCompletedSession(null);
-      setView('quiz');
-    } catch (error) { handleError(error); } finally { setIsLoading(false); }
+      // Pooled questions only match untargeted blocks; a topic focus always goes to the model
+      const pooled = topics.trim() || toGenerate === 0 ? [] : await drawFromPool(specialties, examTypes, complexity, toGenerate, questionLibrary);
+      const ready = [...reused, ...resolveAgainstLibrary(pooled, questionLibrary)];
+      if (ready.length > 0) beginBlock(config, ready);
+      readyCount = ready.length;
+      // Offline with a partly filled pool: run the shorter block rather than fail
+      if (readyCount < blockCount && (readyCount === 0 || navigator.onLine)) {
+        await jobQueue.enqueue('block', `${blockCount}-question ${mode === 'timed' ? 'timed' : complexity} block`, { ...config, delivered: readyCount }, config.blockId);
+      }
+    } catch (error) {
+      const received = jobQueue.getJob(config.blockId)?.payload.delivered ?? readyCount;
+      if (isAbortError(error)) return;
+      if (received === 0) handleError(error, () => startQuiz(specialties, examTypes, complexity, count, topics, autoReinforce, mode, library));
+      else {
+        console.error(error);
+        notifications.notify({
+          tone: 'warning',
+          title: 'Block Generation Stopped Early',
+          message: `Continuing with the ${received} questions already received.`,
+          actions: [{ label: 'Retry Remaining', onClick: () => jobQueue.retry(config.blockId) }]
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Misses from a past block come back as a tutor block, so each one is explained again right after answering
+  const retestMisses = (source: HistoricalSession, questions: Question[]) => {
+    beginBlock({
+      blockId: crypto.randomUUID(),
+      specialties: source.specialties,
+      examTypes: source.examTypes,
+      complexity: source.complexity || ClinicalComplexity.MEDIUM,
+      count: questions.length,
+      topics: '',
+      autoReinforce: false,
+      mode: 'tutor'
+    }, questions);
   };
 
   const handlePrev = () => {
     if (!session) return;
     if (session.currentQuestionIndex > 0) {
       const prevIdx = session.currentQuestionIndex - 1;
-      setSession(prev => prev ? { ...prev, currentQuestionIndex: prevIdx } : null);
+      setSession(prev => prev ? { ...closeVisit(prev), currentQuestionIndex: prevIdx } : null);
       setSelectedAnswer(session.userAnswers[prevIdx] ?? null);
     }
   };
 
-  const handleNext = (userFocus?: string, manualReinforce?: boolean) => {
-    if (!session || selectedAnswer === null) return;
-    const currentIdx = session.currentQuestionIndex;
-    const currentQuestion = session.questions[currentIdx];
+  const handleAnswer = (index: number) => {
+    setSelectedAnswer(index);
+    setSession(prev => {
+      if (!prev) return null;
+      const tracked = { ...recordAnswer(prev, index), selection: { questionIndex: prev.currentQuestionIndex, answer: index } };
+      if (prev.mode !== 'timed') return tracked;
+      // Timed answers are stored as they change so navigating away or the deadline never loses one
+      const userAnswers = [...prev.userAnswers];
+      userAnswers[prev.currentQuestionIndex] = index;
+      return { ...tracked, userAnswers };
+    });
+  };
+
+  const finishSession = (finalSession: QuizSession) => {
+    // Questions still generating when a timed block ends are simply not part of it
+    if (finalSession.id && finalSession.pendingCount) jobQueue.cancel(finalSession.id);
+    const delivered = closeVisit({ ...finalSession, pendingCount: 0 });
+    processSessionCompletion(delivered);
+    setCompletedSession(delivered);
+    setSession(null);
+    setSelectedAnswer(null);
+    // Exam blocks go straight back to the exam, whose report replaces per-block results
+    const attempt = examAttemptsRef.current.find(a => a.id === finalSession.examAttemptId && !a.completedAt);
+    if (!attempt) setView('results');
+    else if (nextBlockNumber(attempt) < attempt.blockCount) setView('exam');
+    else {
+      setReportAttemptId(attempt.id);
+      setView('examReport');
+    }
+  };
+
+  const confirmSubmit = (finalSession: QuizSession): boolean => {
+    const unanswered = finalSession.questions.filter((_, idx) => finalSession.userAnswers[idx] == null).length;
+    return window.confirm(unanswered > 0 ? `${unanswered} question${unanswered === 1 ? ' is' : 's are'} unanswered. Submit the block anyway?` : 'Submit the block and review explanations?');
+  };
+
+  const submitBlock = () => {
+    if (!session || offerFlaggedReview(session)) return;
+    if (confirmSubmit(session)) finishSession(session);
+  };
+
+  // Timed blocks submit themselves at the deadline, including one that expired while the app was closed
+  useEffect(() => {
+    if (session?.mode !== 'timed' || !session.deadline) return;
+    const timer = setTimeout(() => {
+      if (!sessionRef.current) return;
+      finishSession(sessionRef.current);
+      notifications.notify({ tone: 'info', title: 'Time Expired', message: 'The block was submitted automatically.' });
+    }, Math.max(0, session.deadline - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session?.id, session?.deadline]);
+
+  const unansweredSkipped = (s: QuizSession): number[] =>
+    s.questions.map((q, idx) => idx).filter(idx => s.skippedIds?.includes(s.questions[idx].id) && s.userAnswers[idx] == null);
+
+  // During the flagged review pass Next walks only the flagged items; on the way back to skipped items, only those
+  const nextIndexOf = (s: QuizSession): number => {
+    let next = s.currentQuestionIndex + 1;
+    if (s.reviewingFlagged) next = s.questions.findIndex((q, idx) => idx > s.currentQuestionIndex && s.flaggedIds?.includes(q.id));
+    else if (s.returningToSkipped) next = unansweredSkipped(s).find(idx => idx > s.currentQuestionIndex) ?? -1;
+    return next === -1 ? s.questions.length : next;
+  };
+
+  // Reaching the end sends the user back through skipped items; finishing with some still unanswered needs a confirmation
+  const returnToSkipped = (finalSession: QuizSession): boolean => {
+    const remaining = unansweredSkipped(finalSession);
+    if (remaining.length === 0) return false;
+    if (finalSession.returningToSkipped) {
+      // Timed blocks ask once about every unanswered item at submission instead
+      if (finalSession.mode === 'timed' || window.confirm(`${remaining.length} skipped question${remaining.length === 1 ? ' is' : 's are'} still unanswered and will be recorded as omitted. Finish anyway?`)) return false;
+    } else {
+      notifications.notify({ tone: 'info', title: 'Returning to Skipped Questions', message: `${remaining.length} deferred question${remaining.length === 1 ? '' : 's'} left before the block ends.` });
+    }
+    setSession({ ...closeVisit(finalSession), currentQuestionIndex: remaining[0], returningToSkipped: true });
+    setSelectedAnswer(null);
+    return true;
+  };
+
+  // Offers one pass over the flagged items before the block is submitted
+  const offerFlaggedReview = (finalSession: QuizSession): boolean => {
+    if (finalSession.reviewingFlagged) return false;
+    const flagged = finalSession.questions.filter(q => finalSession.flaggedIds?.includes(q.id));
+    if (flagged.length === 0 || !window.confirm(`You flagged ${flagged.length} question${flagged.length === 1 ? '' : 's'}. Review ${flagged.length === 1 ? 'it' : 'them'} before submitting?`)) return false;
+    const firstFlagged = finalSession.questions.indexOf(flagged[0]);
+    setSession({ ...closeVisit(finalSession), currentQuestionIndex: firstFlagged, reviewingFlagged: true });
+    setSelectedAnswer(finalSession.userAnswers[firstFlagged] ?? null);
+    return true;
+  };
+
+  // Commits the answer on screen, along with any reinforcement it triggers, then moves to targetIndex or ends the block
+  // `from` is the current session plus any change made on the way out, such as a new skip
+  const leaveQuestion = (from: QuizSession, targetIndex: number, userFocus?: string, manualReinforce?: boolean) => {
+    const isTimed = from.mode === 'timed';
+    const currentIdx = from.currentQuestionIndex;
+    const currentQuestion = from.questions[currentIdx];
     const isCorrect = selectedAnswer === currentQuestion.correctIndex;
 
-    const updatedAnswers = [...session.userAnswers];
-    updatedAnswers[currentIdx] = selectedAnswer;
-    const shouldReinforce = manualReinforce || (!isCorrect && session.userAnswers[currentIdx] === undefined && session.autoReinforce);
+    const updatedAnswers = [...from.userAnswers];
+    if (selectedAnswer !== null) updatedAnswers[currentIdx] = selectedAnswer;
+    const shouldReinforce = selectedAnswer !== null && !isTimed && (manualReinforce || (!isCorrect && from.userAnswers[currentIdx] === undefined && from.autoReinforce));
 
-    const nextIndex = currentIdx + 1;
-    if (nextIndex < session.questions.length) {
-      setSession(prev => prev ? { ...prev, currentQuestionIndex: nextIndex, userAnswers: updatedAnswers } : null);
-      setSelectedAnswer(session.userAnswers[nextIndex] ?? null);
+    if (targetIndex >= from.questions.length && from.pendingCount) return; // Next vignette still generating
+    if (targetIndex < from.questions.length) {
+      setSession(prev => prev ? { ...closeVisit(prev), skippedIds: from.skippedIds, currentQuestionIndex: targetIndex, userAnswers: updatedAnswers } : null);
+      setSelectedAnswer(updatedAnswers[targetIndex] ?? null);
     } else {
-      const finalSession = { ...session, userAnswers: updatedAnswers };
-      // Process end of session
-      processSessionCompletion(finalSession);
-      
-      setCompletedSession(finalSession);
-      setSession(null);
-      setView('results');
+      const finalSession = { ...from, userAnswers: updatedAnswers };
+      if (!returnToSkipped(finalSession) && !offerFlaggedReview(finalSession) && (!isTimed || confirmSubmit(finalSession))) finishSession(finalSession);
     }
 
     if (shouldReinforce) {
-      setBackgroundProcessing(true);
-      generateSimilarQuestions(currentQuestion, session.examTypes, session.complexity, 3, userFocus)
-        .then(remediation => {
-          if (remediation.length === 0) return;
-          addToLibrary(remediation);
-          setSession(prev => {
-            if (!prev) return null;
-            const updatedQuestions = [...prev.questions];
-            remediation.forEach(newQ => { updatedQuestions.push(newQ); });
-            return { ...prev, questions: updatedQuestions };
-          });
-        }).catch(err => console.error(err)).finally(() => setBackgroundProcessing(false));
+      const payload = { question: currentQuestion, examTypes: from.examTypes, complexity: from.complexity, userFocus, blockId: from.id };
+      // Failures stay in the jobs tray for retry, so there is nothing more to do here
+      jobQueue.enqueue('remediation', 'Remediation questions', payload).catch(err => { if (!isAbortError(err)) console.error(err); });
+    }
+  };
+
+  const handleNext = (userFocus?: string, manualReinforce?: boolean) => {
+    if (!session || (selectedAnswer === null && session.mode !== 'timed')) return;
+    leaveQuestion(session, nextIndexOf(session), userFocus, manualReinforce);
+  };
+
+  const handleSkip = () => {
+    if (!session) return;
+    const id = session.questions[session.currentQuestionIndex].id;
+    const skippedIds = session.skippedIds?.includes(id) ? session.skippedIds : [...(session.skippedIds || []), id];
+    leaveQuestion({ ...session, skippedIds }, nextIndexOf(session));
+  };
+
+  const jumpTo = (index: number) => {
+    if (!session || index === session.currentQuestionIndex) return;
+    leaveQuestion(session, index);
+  };
+
+  const annotate = (annotations: QuestionAnnotations) => {
+    setSession(prev => {
+      if (!prev) return null;
+      const id = prev.questions[prev.currentQuestionIndex].id;
+      return { ...prev, annotations: { ...prev.annotations, [id]: annotations } };
+    });
+  };
+
+  const rateConfidence = (confidence: Confidence) => {
+    setSession(prev => {
+      if (!prev) return null;
+      const id = prev.questions[prev.currentQuestionIndex].id;
+      return { ...prev, confidence: { ...prev.confidence, [id]: confidence } };
+    });
+  };
+
+  // Every copy of the question carries the note, so it shows wherever the question does
+  const updateNote = (q: Question, note: string) => {
+    const withNote = (questions: Question[]) => questions.map(item => item.id === q.id ? { ...item, note: note || undefined } : item);
+    setQuestionLibrary(prev => ({ ...prev, [q.id]: { ...(prev[q.id] || q), note: note || undefined } }));
+    setBookmarks(withNote);
+    setSession(prev => prev && { ...prev, questions: withNote(prev.questions) });
+    setCompletedSession(prev => prev && { ...prev, questions: withNote(prev.questions) });
+  };
+
+  const toggleFlag = () => {
+    setSession(prev => {
+      if (!prev) return null;
+      const id = prev.questions[prev.currentQuestionIndex].id;
+      const flaggedIds = prev.flaggedIds || [];
+      return { ...prev, flaggedIds: flaggedIds.includes(id) ? flaggedIds.filter(f => f !== id) : [...flaggedIds, id] };
+    });
+  };
+
+  const updateAttempt = (attemptId: string, update: (attempt: ExamAttempt) => ExamAttempt) => {
+    setExamAttempts(prev => prev.map(a => a.id === attemptId ? update(a) : a));
+  };
+
+  // Generated while the previous block is being taken, so the next one is ready when its break ends
+  const prepareExamBlock = (attempt: ExamAttempt, blockNumber: number) => {
+    const { id, examType, complexity, blockMix, blockSize } = attempt;
+    jobQueue.enqueue('examBlock', `${examType} simulation · block ${blockNumber}`, { attemptId: id, blockNumber, examType, complexity, blockMix, blockSize }, examPrepJobId(id, blockNumber))
+      .catch(err => { if (!isAbortError(err)) console.error(err); });
+  };
+
+  const startExam = async (examType: SimulatedExamType, blockCount: number, complexity: ClinicalComplexity) => {
+    if (!isProviderConfigured()) {
+      setView('settings');
+      return;
+    }
+    const attempt = createExamAttempt(examType, blockCount, complexity);
+    if (!(await confirmWithinBudget('questions', blockCount * attempt.blockSize, `This ${blockCount}-block simulated exam`))) return;
+    setExamAttempts(prev => [attempt, ...prev]);
+    prepareExamBlock(attempt, 1);
+    setView('exam');
+  };
+
+  const startExamBlock = (attempt: ExamAttempt) => {
+    const blockNumber = nextBlockNumber(attempt);
+    const items = shuffleItems(attempt.preparedFor === blockNumber ? attempt.prepared : []);
+    if (items.length === 0) return;
+    updateAttempt(attempt.id, a => ({ ...endBreak(a), prepared: [], preparedFor: blockNumber + 1 }));
+    beginBlock({
+      blockId: crypto.randomUUID(),
+      specialties: Object.keys(attempt.blockMix) as MedicalSpecialty[],
+      examTypes: [attempt.examType],
+      complexity: attempt.complexity,
+      count: items.length,
+      topics: '',
+      autoReinforce: false,
+      mode: 'timed',
+      examAttemptId: attempt.id,
+      examBlockNumber: blockNumber,
+      itemSpecialties: Object.fromEntries(items.map(item => [item.question.id, item.specialty]))
+    }, items.map(item => item.question));
+    if (blockNumber < attempt.blockCount) prepareExamBlock(attempt, blockNumber + 1);
+  };
+
+  // The break clock starts as soon as a block is submitted
+  const recordExamBlock = (attemptId: string, historyId: string) => {
+    const now = Date.now();
+    updateAttempt(attemptId, a => {
+      if (a.completedAt) return a;
+      const blockSessionIds = [...a.blockSessionIds, historyId];
+      const isDone = blockSessionIds.length >= a.blockCount;
+      return { ...a, blockSessionIds, completedAt: isDone ? now : undefined, breakStartedAt: isDone ? undefined : now };
+    });
+  };
+
+  const endExam = (attempt: ExamAttempt) => {
+    if (!window.confirm('End the simulated exam now? Blocks not yet taken are left out of the report.')) return;
+    jobQueue.cancel(examPrepJobId(attempt.id, nextBlockNumber(attempt)));
+    if (attempt.blockSessionIds.length === 0) {
+      setExamAttempts(prev => prev.filter(a => a.id !== attempt.id));
+      setView('setup');
+      return;
     }
+    updateAttempt(attempt.id, a => ({ ...endBreak(a), prepared: [], completedAt: Date.now() }));
+    setReportAttemptId(attempt.id);
+    setView('examReport');
+  };
+
+  const activeExam = examAttempts.find(a => !a.completedAt);
+
+  // An exam block already under way is resumed rather than sending the user to the lobby
+  const openExam = () => {
+    if (!activeExam) return;
+    const block = [session, ...suspendedBlocks].find(b => b?.examAttemptId === activeExam.id);
+    if (block) resumeSuspended(block);
+    else setView('exam');
   };
 
   const processSessionCompletion = async (finalSession: QuizSession) => {
     const correctCount = finalSession.userAnswers.reduce((acc, ans, idx) => ans === finalSession.questions[idx].correctIndex ? acc + 1 : acc, 0);
+    const omittedCount = finalSession.questions.filter((_, idx) => finalSession.userAnswers[idx] == null).length;
     const accuracy = (correctCount / finalSession.questions.length) * 100;
     
-    const details = finalSession.questions.map((q, idx) => ({
-      questionId: q.id,
-      isCorrect: finalSession.userAnswers[idx] === q.correctIndex
-    }));
+    const details = finalSession.questions.map((q, idx) => {
+      const timing = finalSession.timings?.[q.id];
+      const annotations = finalSession.annotations?.[q.id];
+      return {
+        questionId: q.id,
+        isCorrect: finalSession.userAnswers[idx] === q.correctIndex,
+        selectedIndex: finalSession.userAnswers[idx] ?? undefined,
+        timeSpentMs: timing?.timeSpentMs,
+        firstAnswerMs: timing?.firstAnswerMs,
+        answerChanges: timing?.changes.length ? timing.changes : undefined,
+        flagged: finalSession.flaggedIds?.includes(q.id) || undefined,
+        skipped: finalSession.skippedIds?.includes(q.id) || undefined,
+        omitted: finalSession.userAnswers[idx] == null || undefined,
+        confidence: finalSession.confidence?.[q.id],
+        specialty: finalSession.itemSpecialties?.[q.id],
+        position: idx,
+        tags: q.tags,
+        unclassifiedTags: q.unclassifiedTags,
+        remediationOf: finalSession.remediationOf?.[q.id],
+        annotations: annotations && (annotations.highlights.length || annotations.struckOptions.length) ? annotations : undefined
+      };
+    });
 
     const newHistoryEntry: HistoricalSession = {
       id: crypto.randomUUID(), 
       timestamp: Date.now(), 
       totalQuestions: finalSession.questions.length,
       correctAnswers: correctCount, 
-      timeTakenMs: Date.now() - finalSession.startTime,
+      omittedAnswers: omittedCount,
+      timeTakenMs: blockElapsedMs(finalSession),
       specialties: finalSession.specialties, 
       examTypes: finalSession.examTypes,
       complexity: finalSession.complexity, // Save complexity for analysis
+      mode: finalSession.mode || 'tutor',
+      examAttemptId: finalSession.examAttemptId,
       details: details
     };
     
     // Update local state and Persist to DB
     setHistory(prev => [newHistoryEntry, ...prev]);
+    if (finalSession.examAttemptId) recordExamBlock(finalSession.examAttemptId, newHistoryEntry.id);
     const newLifetimeStats = await dbService.saveSession(newHistoryEntry);
     setLifetimeStats(newLifetimeStats);
   };
 
+  // Resolves false instead of throwing, so callers can skip follow-up UI such as the undo prompt
+  const applyHistoryEdit = async (removeIds: string[], add: HistoricalSession[] = []): Promise<boolean> => {
+    try {
+      const result = await dbService.replaceSessions(removeIds, add);
+      setHistory(result.history);
+      setLifetimeStats(result.lifetimeStats);
+      return true;
+    } catch (error) {
+      console.error('History edit failed', error);
+      notifications.notify({ tone: 'error', title: 'History Not Updated', message: 'The change could not be saved. History shows what is currently stored.' });
+      // The history write may have landed without the stats one, so show whatever storage actually holds
+      try {
+        const data = await dbService.getAllData();
+        setHistory(data.history);
+        setLifetimeStats(data.lifetimeStats);
+      } catch (reloadError) {
+        console.error('Reloading history failed', reloadError);
+      }
+      return false;
+    }
+  };
+
+  const deleteSession = async (sessionId: string) => {
+    const removed = history.find(h => h.id === sessionId);
+    if (!removed || !canDelete(removed) || !await applyHistoryEdit([sessionId])) return;
+    notifications.notify({
+      tone: 'info',
+      title: 'Block Deleted',
+      message: `${removed.totalQuestions} questions from ${new Date(removed.timestamp).toLocaleDateString()} removed from history.`,
+      actions: [{ label: 'Undo', onClick: () => { void applyHistoryEdit([], [removed]); } }],
+      autoDismissMs: 10000
+    });
+  };
+
+  const toggleExcluded = async (sessionId: string) => {
+    const target = history.find(h => h.id === sessionId);
+    if (target) await applyHistoryEdit([sessionId], [{ ...target, excludedFromAnalytics: !target.excludedFromAnalytics || undefined }]);
+  };
+
+  const mergeHistory = async (sessionIds: string[]) => {
+    const sessions = history.filter(h => sessionIds.includes(h.id));
+    if (!canMerge(sessions) || !window.confirm(`Combine ${sessions.length} blocks into one? This cannot be undone.`)) return;
+    await applyHistoryEdit(sessionIds, [mergeSessions(sessions)]);
+  };
+
   const downloadTxt = (content: string, filename: string) => {
     const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
     const url = URL.createObjectURL(blob);
@@ -320,15 +737,102 @@ const App: React.FC = () => {
     document.body.removeChild(link);
   };
 
+  // Job handlers are registered once the stored session is restored, so resumed jobs see the block they belong to
+  useEffect(() => {
+    if (!isReady) return;
+    const unregister = [
+      jobQueue.register('block', async ({ payload, signal, setProgress, updatePayload, onRetry }) => {
+        const config = payload as BlockConfig;
+        let delivered: number = payload.delivered || 0;
+        try {
+          await generateQuestionsIncrementally(config.specialties, config.examTypes, config.complexity, config.count - delivered, config.topics, chunk => {
+            const questions = resolveAgainstLibrary(chunk, libraryRef.current);
+            if (delivered === 0) beginBlock(config, questions);
+            else {
+              addToLibrary(questions);
+              updateBlock(config.blockId, prev => {
+                const fresh = questions.filter(q => !prev.questions.some(existing => existing.id === q.id));
+                return { ...prev, questions: [...prev.questions, ...fresh], pendingCount: Math.max(0, (prev.pendingCount || 0) - questions.length) };
+              });
+            }
+            delivered += questions.length;
+            updatePayload({ delivered });
+            setProgress((delivered / config.count) * 100);
+          }, { signal, onRetry });
+        } finally {
+          updateBlock(config.blockId, prev => prev.pendingCount ? { ...prev, pendingCount: 0 } : prev);
+        }
+      }),
+      jobQueue.register('examBlock', async ({ payload, signal, setProgress, onRetry }) => {
+        const { attemptId, blockNumber, examType, complexity, blockSize } = payload;
+        const stored = examAttemptsRef.current.find(a => a.id === attemptId);
+        const prepared: ExamItem[] = stored?.preparedFor === blockNumber ? [...stored.prepared] : [];
+        // Seen questions are left out, so no item repeats across the exam or from earlier practice
+        const add = (specialty: MedicalSpecialty, questions: Question[]): number => {
+          const fresh = resolveAgainstLibrary(questions, libraryRef.current)
+            .filter(q => !libraryRef.current[q.id] && !prepared.some(item => item.question.id === q.id));
+          if (fresh.length === 0) return 0;
+          const items = fresh.map(question => ({ question, specialty }));
+          prepared.push(...items);
+          addToLibrary(fresh);
+          updateAttempt(attemptId, a => ({ ...a, preparedFor: blockNumber, prepared: [...(a.preparedFor === blockNumber ? a.prepared : []), ...items] }));
+          setProgress((prepared.length / blockSize) * 100);
+          return fresh.length;
+        };
+        for (const [specialty, target] of Object.entries(payload.blockMix) as [MedicalSpecialty, number][]) {
+          let missing = target - prepared.filter(item => item.specialty === specialty).length;
+          if (missing <= 0) continue;
+          missing -= add(specialty, await drawFromPool([specialty], [examType], complexity, missing, libraryRef.current));
+          if (missing <= 0) continue;
+          await generateQuestionsIncrementally([specialty], [examType], complexity, missing, undefined, chunk => {
+            missing -= add(specialty, chunk.slice(0, missing));
+          }, { signal, onRetry, priority: blockNumber === 1 ? 'interactive' : 'background' });
+        }
+      }),
+      jobQueue.register('remediation', async ({ payload, signal, onRetry }) => {
+        const generated = await generateSimilarQuestions(payload.question, payload.examTypes, payload.complexity, 3, payload.userFocus, { signal, onRetry, priority: 'background' });
+        const remediation = resolveAgainstLibrary(generated, libraryRef.current);
+        if (remediation.length === 0) return;
+        addToLibrary(remediation);
+        const append = (prev: QuizSession): QuizSession => {
+          const updatedQuestions = [...prev.questions];
+          const remediationOf = { ...prev.remediationOf };
+          remediation.forEach(newQ => {
+            if (updatedQuestions.some(q => q.id === newQ.id)) return;
+            updatedQuestions.push(newQ);
+            remediationOf[newQ.id] = payload.question.id;
+          });
+          return { ...prev, questions: updatedQuestions, remediationOf };
+        };
+        if (payload.blockId) updateBlock(payload.blockId, append);
+        else setSession(prev => prev && append(prev));
+      }),
+      jobQueue.register('mastery', async ({ payload, signal, onRetry }) => {
+        const layers = await generateMasteryCards(payload.question, { signal, onRetry });
+        setMasteryCards(prev => ({ ...prev, [payload.question.id]: layers }));
+        layers.forEach(card => updateSRS(card.id, 'again'));
+      }),
+      jobQueue.register('deepDive', ({ payload, signal, onRetry }) => deepDiveExplanation(payload.question, { signal, onRetry })),
+      jobQueue.register('export', async ({ payload, signal, onRetry }) => {
+        const generate = payload.format === 'guide' ? generateStudyGuide : generateSessionSummary;
+        downloadTxt(await generate(payload.questions, { signal, onRetry }), payload.filename);
+      })
+    ];
+    return () => unregister.forEach(fn => fn());
+  }, [isReady]);
+
   const handleExportGuide = async () => {
     if (!completedSession) return;
+    if (!(await confirmWithinBudget('studyGuide', completedSession.questions.length, 'This study guide export'))) return;
     setIsExporting(true);
     try {
-      const textContent = await generateStudyGuide(completedSession.questions);
-      downloadTxt(textContent, `Clinical_Study_Guide_${new Date().toISOString().slice(0,10)}.txt`);
+      await jobQueue.enqueue('export', 'Study guide export', {
+        format: 'guide',
+        questions: completedSession.questions,
+        filename: `Clinical_Study_Guide_${new Date().toISOString().slice(0,10)}.txt`
+      });
     } catch (err) {
-      console.error(err);
-      alert("Failed to export study guide. Please try again.");
+      handleError(err, handleExportGuide);
     } finally {
       setIsExporting(false);
     }
@@ -336,13 +840,16 @@ const App: React.FC = () => {
 
   const handleExportSummary = async () => {
     if (!completedSession) return;
+    if (!(await confirmWithinBudget('sessionSummary', completedSession.questions.length, 'This summary export'))) return;
     setIsExporting(true);
     try {
-      const textContent = await generateSessionSummary(completedSession.questions);
-      downloadTxt(textContent, `High_Yield_Summary_${new Date().toISOString().slice(0,10)}.txt`);
+      await jobQueue.enqueue('export', 'High-yield summary export', {
+        format: 'summary',
+        questions: completedSession.questions,
+        filename: `High_Yield_Summary_${new Date().toISOString().slice(0,10)}.txt`
+      });
     } catch (err) {
-      console.error(err);
-      alert("Failed to export summary. Please try again.");
+      handleError(err, handleExportSummary);
     } finally {
       setIsExporting(false);
     }
@@ -382,6 +889,7 @@ const App: React.FC = () => {
           </div>
           <div className="flex items-center gap-2 sm:gap-4">
              <button onClick={() => setView('analytics')} className={`p-2 rounded-xl ${view === 'analytics' ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800'}`}>📊</button>
+             <button onClick={() => setView('history')} title="Block history" className={`p-2 rounded-xl ${view === 'history' || view === 'review' ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800'}`}>🕘</button>
              <button onClick={() => setView('bookmarks')} className={`p-2 rounded-xl border-2 transition-all ${view === 'bookmarks' ? 'bg-blue-600 border-blue-600 text-white shadow-lg' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:text-blue-600 hover:border-blue-200'}`}>
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg>
              </button>
@@ -389,6 +897,8 @@ const App: React.FC = () => {
                {dueSRSItems.length > 0 && <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full text-[8px] flex items-center justify-center text-white">{dueSRSItems.length}</span>}
                🗃️
              </button>
+             <JobTray />
+             <button onClick={() => setView('settings')} className={`p-2 rounded-xl ${view === 'settings' ? 'bg-slate-700 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800'}`}>⚙️</button>
              <button onClick={toggleTheme} className="p-2 rounded-xl bg-slate-100 dark:bg-slate-800">{isDarkMode ? '🌞' : '🌙'}</button>
           </div>
         </div>
@@ -396,37 +906,95 @@ const App: React.FC = () => {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6 sm:pt-8">
         {view === 'setup' && (
-          <QuizSetup onStart={startQuiz} isLoading={isLoading} dueSRSCount={dueSRSItems.length} onStartSRS={() => setView('srs')} onResume={() => setView('quiz')} onDiscardSession={() => setSession(null)} activeSessionProgress={session ? { current: session.currentQuestionIndex + 1, total: session.questions.length, skippedCount: session.skippedIds?.length || 0 } : undefined} />
+          <QuizSetup onStart={startQuiz} onStartExam={startExam} activeExam={activeExam} onOpenExam={openExam} isLoading={isLoading} libraryIndex={libraryIndex} dueSRSCount={dueSRSItems.length} onStartSRS={() => setView('srs')} activeSession={session} suspendedBlocks={suspendedBlocks} onResumeBlock={resumeSuspended} onDiscardBlock={discardBlock} />
         )}
 
         {view === 'quiz' && session && (
-          <QuestionCard 
-            question={session.questions[session.currentQuestionIndex]} 
-            selectedAnswer={selectedAnswer} 
-            onAnswer={setSelectedAnswer} 
-            onNext={handleNext} 
-            onPrev={handlePrev}
-            isLast={session.currentQuestionIndex === session.questions.length - 1} 
-            isFirst={session.currentQuestionIndex === 0} 
-            onToggleBookmark={() => toggleBookmark(session.questions[session.currentQuestionIndex])}
-            isBookmarked={bookmarks.some(b => b.id === session.questions[session.currentQuestionIndex].id)}
-            progress={(session.currentQuestionIndex / session.questions.length) * 100} 
-            currentIndex={session.currentQuestionIndex} 
-            totalQuestions={session.questions.length} 
-            autoReinforce={session.autoReinforce} 
-            onDissect={dissectQuestion} 
-            masteryCards={masteryCards[session.questions[session.currentQuestionIndex].id]} 
-          />
+          <div className="space-y-4">
+            <BlockNavigator
+              questions={session.questions}
+              userAnswers={session.userAnswers}
+              currentIndex={session.currentQuestionIndex}
+              currentSelection={selectedAnswer}
+              pendingCount={session.pendingCount || 0}
+              flaggedIds={session.flaggedIds || []}
+              skippedIds={session.skippedIds || []}
+              onJump={jumpTo}
+            />
+            <QuestionCard 
+              question={session.questions[session.currentQuestionIndex]} 
+              selectedAnswer={selectedAnswer} 
+              onAnswer={handleAnswer} 
+              onNext={handleNext} 
+              onPrev={handlePrev}
+              onSkip={handleSkip}
+              isLast={nextIndexOf(session) >= session.questions.length && !session.pendingCount} 
+              isFirst={session.currentQuestionIndex === 0} 
+              onToggleBookmark={() => toggleBookmark(session.questions[session.currentQuestionIndex])}
+              isBookmarked={bookmarks.some(b => b.id === session.questions[session.currentQuestionIndex].id)}
+              progress={(session.currentQuestionIndex / (session.questions.length + (session.pendingCount || 0))) * 100} 
+              currentIndex={session.currentQuestionIndex} 
+              totalQuestions={session.questions.length + (session.pendingCount || 0)} 
+              pendingCount={session.pendingCount || 0}
+              isNextPending={session.currentQuestionIndex === session.questions.length - 1 && !!session.pendingCount}
+              autoReinforce={session.autoReinforce} 
+              onDissect={dissectQuestion} 
+              masteryCards={masteryCards[session.questions[session.currentQuestionIndex].id]} 
+              mode={session.mode}
+              deadline={session.deadline}
+              onSubmitBlock={submitBlock}
+              isFlagged={!!session.flaggedIds?.includes(session.questions[session.currentQuestionIndex].id)}
+              onToggleFlag={toggleFlag}
+              annotations={session.annotations?.[session.questions[session.currentQuestionIndex].id]}
+              onAnnotate={annotate}
+              onUpdateNote={updateNote}
+              confidence={session.confidence?.[session.questions[session.currentQuestionIndex].id]}
+              onRateConfidence={rateConfidence}
+              onSuspend={suspendSession}
+            />
+          </div>
         )}
 
         {view === 'results' && completedSession && (
-          <ResultsView session={completedSession} onRestart={() => setView('setup')} onViewAnalytics={() => setView('analytics')} onViewBookmarks={() => setView('bookmarks')} onExportGuide={handleExportGuide} onExportSummary={handleExportSummary} isExporting={isExporting} />
+          <ResultsView session={completedSession} onRestart={() => setView('setup')} onViewAnalytics={() => setView('analytics')} onViewBookmarks={() => setView('bookmarks')} onExportGuide={handleExportGuide} onExportSummary={handleExportSummary} isExporting={isExporting} onUpdateNote={updateNote} onAddToSRS={addToSRS} srsQuestionIds={Object.keys(srsStates)} />
+        )}
+
+        {view === 'exam' && activeExam && (
+          <ExamLobby attempt={activeExam} onStartBlock={() => startExamBlock(activeExam)} onPrepare={() => prepareExamBlock(activeExam, nextBlockNumber(activeExam))} onEndExam={() => endExam(activeExam)} />
+        )}
+
+        {view === 'examReport' && examAttempts.some(a => a.id === reportAttemptId) && (
+          <ExamReport attempt={examAttempts.find(a => a.id === reportAttemptId)!} history={history} onClose={() => setView('analytics')} />
         )}
 
-        {view === 'analytics' && <AnalyticsView history={history} onClose={() => setView('setup')} questionLibrary={questionLibrary} lifetimeStats={lifetimeStats} />}
-        {view === 'srs' && <SRSReview questions={dueSRSItems} onRate={updateSRS} onClose={() => setView('setup')} />}
-        {view === 'bookmarks' && <BookmarksView bookmarks={bookmarks} onClose={() => setView('setup')} onRemove={toggleBookmark} masteryLayers={masteryCards} onDissect={dissectQuestion} />}
+        {view === 'analytics' && <AnalyticsView history={analyticsHistory} onClose={() => setView('setup')} questionLibrary={questionLibrary} lifetimeStats={lifetimeStats} examAttempts={examAttempts} onOpenExamReport={(id) => { setReportAttemptId(id); setView('examReport'); }} />}
+        {view === 'history' && (
+          <HistoryView
+            history={history}
+            onReview={(id) => { setReviewSessionId(id); setView('review'); }}
+            onDelete={deleteSession}
+            onToggleExcluded={toggleExcluded}
+            onMerge={mergeHistory}
+            onClose={() => setView('setup')}
+          />
+        )}
+        {view === 'review' && history.some(h => h.id === reviewSessionId) && (
+          <SessionReview
+            session={history.find(h => h.id === reviewSessionId)!}
+            questionLibrary={questionLibrary}
+            bookmarkIds={bookmarks.map(b => b.id)}
+            masteryQuestionIds={Object.keys(masteryCards)}
+            onToggleBookmark={toggleBookmark}
+            onDissect={dissectQuestion}
+            onRetest={(questions) => retestMisses(history.find(h => h.id === reviewSessionId)!, questions)}
+            onClose={() => setView('history')}
+          />
+        )}
+        {view === 'srs' && <SRSReview questions={dueSRSItems} onRate={updateSRS} onClose={() => setView('setup')} onUpdateNote={updateNote} />}
+        {view === 'settings' && <SettingsView onClose={() => setView('setup')} />}
+        {view === 'bookmarks' && <BookmarksView bookmarks={bookmarks} onClose={() => setView('setup')} onRemove={toggleBookmark} masteryLayers={masteryCards} onDissect={dissectQuestion} onUpdateNote={updateNote} />}
       </main>
+      <NotificationCenter />
     </div>
   );
 };
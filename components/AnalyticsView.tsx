@@ -1,9 +1,12 @@
 
 import React, { useMemo, useState, useRef } from 'react';
-import { HistoricalSession, Question, LifetimeStats, ClinicalComplexity } from '../types';
+import { HistoricalSession, Question, LifetimeStats, ClinicalComplexity, QuizMode, ExamAttempt, ExamType, TaxonomyDimension } from '../types';
 import { Button } from './Button';
-import { PredictiveScore } from './PredictiveScore';
+import { PredictiveScore, predictScaledScore } from './PredictiveScore';
+import { PacingAnalysis } from './PacingAnalysis';
+import { CalibrationPanel } from './CalibrationPanel';
 import { dbService } from '../services/databaseService';
+import { TAXONOMY_DIMENSIONS, contentNodes } from '../services/tagTaxonomy';
 import { 
   LineChart, Line, Tooltip, ResponsiveContainer, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, BarChart, Bar, XAxis
 } from 'recharts';
@@ -13,10 +16,13 @@ interface AnalyticsViewProps {
   onClose: () => void;
   questionLibrary?: Record<string, Question>;
   lifetimeStats?: LifetimeStats;
+  examAttempts?: ExamAttempt[];
+  onOpenExamReport?: (attemptId: string) => void;
 }
 
-export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose, questionLibrary = {}, lifetimeStats }) => {
+export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose, questionLibrary = {}, lifetimeStats, examAttempts = [], onOpenExamReport }) => {
   const [sortMethod, setSortMethod] = useState<'weakness' | 'strength' | 'alpha'>('weakness');
+  const [dimension, setDimension] = useState<TaxonomyDimension>('system');
   const [showDataModal, setShowDataModal] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -86,25 +92,51 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose,
        total: data.total
     }));
 
-    // Tag Analysis
-    const tagStats: Record<string, { correct: number, total: number }> = {};
+    // Tutor vs Timed: the gap shows how much of the score leans on untimed, explained practice
+    const modeData = (['tutor', 'timed'] as QuizMode[]).map(mode => {
+      const sessions = history.filter(s => (s.mode || 'tutor') === mode);
+      const total = sessions.reduce((acc, s) => acc + s.totalQuestions, 0);
+      const correct = sessions.reduce((acc, s) => acc + s.correctAnswers, 0);
+      const timeMs = sessions.reduce((acc, s) => acc + s.timeTakenMs, 0);
+      return {
+        mode,
+        blocks: sessions.length,
+        total,
+        accuracy: total ? Math.round((correct / total) * 100) : 0,
+        secPerQuestion: total ? Math.round(timeMs / total / 1000) : 0
+      };
+    });
+    const modeGap = modeData.every(m => m.total > 0) ? modeData[1].accuracy - modeData[0].accuracy : null;
+
+    // First pass vs remediation: remediation items retest a concept just missed, so they would flatter raw accuracy
+    const allDetails = history.flatMap(s => s.details || []);
+    const passData = [
+      { label: 'First Pass', items: allDetails.filter(d => !d.remediationOf) },
+      { label: 'Remediation', items: allDetails.filter(d => d.remediationOf) }
+    ].map(({ label, items }) => {
+      const answered = items.filter(d => !d.omitted);
+      const correct = answered.filter(d => d.isCorrect).length;
+      return { label, total: answered.length, accuracy: answered.length ? Math.round((correct / answered.length) * 100) : 0 };
+    });
+    const remediatedConcepts = new Set(allDetails.map(d => d.remediationOf).filter(Boolean)).size;
+
+    // Tag Analysis, grouped by content outline node; meta-tags such as "Remediation" are not content
+    const tagStats: Record<string, { dimension: TaxonomyDimension, correct: number, total: number }> = {};
     history.forEach(session => {
       if (session.details) {
         session.details.forEach(detail => {
-          const q = questionLibrary[detail.questionId];
-          if (q && q.tags) {
-            q.tags.forEach(tag => {
-              if (!tagStats[tag]) tagStats[tag] = { correct: 0, total: 0 };
-              tagStats[tag].total += 1;
-              if (detail.isCorrect) tagStats[tag].correct += 1;
-            });
-          }
+          contentNodes(detail.tags || questionLibrary[detail.questionId]?.tags).forEach(node => {
+            if (!tagStats[node.label]) tagStats[node.label] = { dimension: node.dimension, correct: 0, total: 0 };
+            tagStats[node.label].total += 1;
+            if (detail.isCorrect) tagStats[node.label].correct += 1;
+          });
         });
       }
     });
 
     let subtopicData = Object.entries(tagStats).map(([name, data]) => ({
       name,
+      dimension: data.dimension,
       accuracy: Math.round((data.correct / data.total) * 100),
       correct: data.correct,
       total: data.total
@@ -140,9 +172,33 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose,
     
     const heatmapData = Object.entries(activityMap).map(([date, count]) => ({ date, count }));
 
-    // Time Analysis
+    // Answer Position Audit: where the keyed answer sits vs. where the user clicks
+    const keyCounts = [0, 0, 0, 0, 0];
+    (Object.values(questionLibrary) as Question[]).forEach(q => {
+      if (keyCounts[q.correctIndex] !== undefined) keyCounts[q.correctIndex] += 1;
+    });
+    const pickCounts = [0, 0, 0, 0, 0];
+    history.forEach(session => {
+      session.details?.forEach(detail => {
+        if (detail.selectedIndex !== undefined && pickCounts[detail.selectedIndex] !== undefined) pickCounts[detail.selectedIndex] += 1;
+      });
+    });
+    const keyTotal = keyCounts.reduce((a, b) => a + b, 0);
+    const pickTotal = pickCounts.reduce((a, b) => a + b, 0);
+    const positionData = keyCounts.map((count, idx) => ({
+      letter: String.fromCharCode(65 + idx),
+      key: keyTotal ? Math.round((count / keyTotal) * 100) : 0,
+      picks: pickTotal ? Math.round((pickCounts[idx] / pickTotal) * 100) : 0
+    }));
+    // With 5 options an unbiased key sits near 20% per slot; flag once there is enough data to tell
+    const positionSkew = keyTotal >= 25 ? Math.max(...positionData.map(p => Math.abs(p.key - 20))) : 0;
+
+    // Time Analysis: recorded per-question time where available, otherwise block time spread evenly
+    const timedItems = history.flatMap(s => s.details || []).filter(d => d.timeSpentMs !== undefined);
     const totalSeconds = lifetime.totalHours * 3600;
-    const avgTimePerQuestionSec = Math.round(totalSeconds / lifetime.totalQuestions);
+    const avgTimePerQuestionSec = timedItems.length
+      ? Math.round(timedItems.reduce((acc, d) => acc + d.timeSpentMs!, 0) / timedItems.length / 1000)
+      : Math.round(totalSeconds / lifetime.totalQuestions);
 
     return {
       sessionsCount: history.length,
@@ -151,8 +207,16 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose,
       subtopicData,
       examMap,
       complexityData,
+      modeData,
+      modeGap,
+      passData,
+      remediatedConcepts,
       heatmapData,
-      avgTimePerQuestionSec
+      avgTimePerQuestionSec,
+      positionData,
+      positionSkew,
+      keyTotal,
+      pickTotal
     };
   }, [history, questionLibrary, sortMethod, lifetime]);
 
@@ -333,15 +397,20 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose,
            <div className="flex items-center justify-between mb-4">
              <div>
                <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Micro-Analysis</h3>
-               <p className="text-xs text-slate-500">Performance by granular subtopic tags.</p>
+               <p className="text-xs text-slate-500">Performance by USMLE content outline area.</p>
              </div>
              <div className="flex gap-2">
                 <button onClick={() => setSortMethod('weakness')} className={`px-3 py-1 text-[10px] font-bold uppercase rounded-lg transition-colors ${sortMethod === 'weakness' ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>Weakest</button>
                 <button onClick={() => setSortMethod('strength')} className={`px-3 py-1 text-[10px] font-bold uppercase rounded-lg transition-colors ${sortMethod === 'strength' ? 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>Strongest</button>
              </div>
            </div>
+           <div className="flex gap-2 mb-3">
+             {TAXONOMY_DIMENSIONS.map(d => (
+               <button key={d.value} onClick={() => setDimension(d.value)} className={`px-3 py-1 text-[10px] font-bold uppercase rounded-lg transition-colors ${dimension === d.value ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>{d.label}</button>
+             ))}
+           </div>
            <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-2">
-             {stats.subtopicData.map((topic, idx) => (
+             {stats.subtopicData.filter(topic => topic.dimension === dimension).map((topic, idx) => (
                <div key={idx} className="grid grid-cols-12 gap-2 items-center py-2 hover:bg-slate-50 dark:hover:bg-slate-800/50 rounded-lg transition-colors px-1">
                   <div className="col-span-5 text-xs font-bold text-slate-700 dark:text-slate-200 truncate pr-2">{topic.name}</div>
                   <div className="col-span-5 flex items-center gap-3">
@@ -380,6 +449,120 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, onClose,
         </div>
       </div>
 
+      {/* Tutor vs Timed */}
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+           <div>
+             <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Tutor vs Timed</h3>
+             <p className="text-xs text-slate-500">Accuracy with explanations after each item vs. under exam pacing.</p>
+           </div>
+           {stats.modeGap !== null && (
+             <span className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${stats.modeGap >= 0 ? 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400' : 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'}`}>
+               Timed {stats.modeGap >= 0 ? '+' : ''}{stats.modeGap} pts
+             </span>
+           )}
+         </div>
+         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+           {stats.modeData.map(data => (
+             <div key={data.mode} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
+               <div className="flex justify-between items-center mb-2">
+                 <span className="text-xs font-black uppercase text-slate-500">{data.mode}</span>
+                 <span className={`text-sm font-black ${data.total === 0 ? 'text-slate-400' : data.accuracy >= 70 ? 'text-green-500' : 'text-amber-500'}`}>{data.total > 0 ? `${data.accuracy}%` : '—'}</span>
+               </div>
+               <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden mb-2">
+                  <div className={`h-full rounded-full ${getBarColor(data.accuracy)}`} style={{ width: `${data.accuracy}%` }} />
+               </div>
+               <p className="text-[10px] text-slate-400 font-medium">
+                 {data.total > 0 ? `${data.blocks} Blocks · ${data.total} Questions · ${data.secPerQuestion}s / Question` : `No ${data.mode} blocks yet`}
+               </p>
+             </div>
+           ))}
+         </div>
+      </div>
+
+      {/* First Pass vs Remediation */}
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+         <div className="mb-4">
+           <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">First Pass vs Remediation</h3>
+           <p className="text-xs text-slate-500">
+             Fresh items vs. reinforcement items generated after a miss{stats.remediatedConcepts > 0 ? ` (${stats.remediatedConcepts} missed concepts retested)` : ''}.
+           </p>
+         </div>
+         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+           {stats.passData.map(data => (
+             <div key={data.label} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
+               <div className="flex justify-between items-center mb-2">
+                 <span className="text-xs font-black uppercase text-slate-500">{data.label}</span>
+                 <span className={`text-sm font-black ${data.total === 0 ? 'text-slate-400' : data.accuracy >= 70 ? 'text-green-500' : 'text-amber-500'}`}>{data.total > 0 ? `${data.accuracy}%` : '—'}</span>
+               </div>
+               <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden mb-2">
+                  <div className={`h-full rounded-full ${getBarColor(data.accuracy)}`} style={{ width: `${data.accuracy}%` }} />
+               </div>
+               <p className="text-[10px] text-slate-400 font-medium">
+                 {data.total > 0 ? `${data.total} Answered` : 'No items yet'}
+               </p>
+             </div>
+           ))}
+         </div>
+      </div>
+
+      {examAttempts.some(a => a.completedAt) && (
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+           <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Simulated Exams</h3>
+           <p className="text-xs text-slate-500 mb-4">Full test-day attempts, weighted more heavily in the score forecast.</p>
+           <div className="space-y-2">
+             {examAttempts.filter(a => a.completedAt).map(attempt => {
+               const blocks = history.filter(s => s.examAttemptId === attempt.id);
+               const correct = blocks.reduce((acc, s) => acc + s.correctAnswers, 0);
+               const total = blocks.reduce((acc, s) => acc + s.totalQuestions, 0);
+               const accuracy = total ? (correct / total) * 100 : 0;
+               return (
+                 <button key={attempt.id} onClick={() => onOpenExamReport?.(attempt.id)} className="w-full flex items-center justify-between gap-3 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-left">
+                   <div>
+                     <p className="text-sm font-black text-slate-700 dark:text-slate-200">{attempt.examType} · {new Date(attempt.startedAt).toLocaleDateString()}</p>
+                     <p className="text-[10px] text-slate-400 font-medium">{attempt.blockSessionIds.length} of {attempt.blockCount} blocks · {Math.round(accuracy)}% correct</p>
+                   </div>
+                   <span className="text-2xl font-black text-indigo-600 dark:text-indigo-400">{predictScaledScore(accuracy, attempt.examType === ExamType.STEP_3)}</span>
+                 </button>
+               );
+             })}
+           </div>
+        </div>
+      )}
+
+      <PacingAnalysis history={history} questionLibrary={questionLibrary} />
+
+      <CalibrationPanel history={history} questionLibrary={questionLibrary} />
+
+      {/* Answer Position Audit */}
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+           <div>
+             <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Answer Position Audit</h3>
+             <p className="text-xs text-slate-500">Keyed answers across {stats.keyTotal} library items vs. your {stats.pickTotal} recorded picks (A–E).</p>
+           </div>
+           <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+             <span className="flex items-center gap-1.5 text-blue-600 dark:text-blue-400"><span className="w-2.5 h-2.5 rounded-sm bg-blue-500" />Key</span>
+             <span className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400"><span className="w-2.5 h-2.5 rounded-sm bg-amber-400" />Your Picks</span>
+           </div>
+         </div>
+         <div className="w-full h-[220px]">
+           <ResponsiveContainer width="100%" height="100%">
+             <BarChart data={stats.positionData}>
+               <XAxis dataKey="letter" tick={{ fill: '#64748b', fontSize: 12, fontWeight: 900 }} axisLine={false} tickLine={false} />
+               <Tooltip formatter={(value) => `${value}%`} contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '12px', color: 'white' }} itemStyle={{ color: '#e2e8f0' }} />
+               <Bar dataKey="key" name="Key" fill="#3b82f6" radius={[6, 6, 0, 0]} />
+               <Bar dataKey="picks" name="Your Picks" fill="#fbbf24" radius={[6, 6, 0, 0]} />
+             </BarChart>
+           </ResponsiveContainer>
+         </div>
+         {stats.positionSkew > 15 && (
+           <p className="mt-3 text-xs font-bold text-amber-600 dark:text-amber-400">
+             Keyed answers are unevenly spread across positions (up to {stats.positionSkew} points off an even 20%). Items generated before shuffling was added may still carry the model's positional bias.
+           </p>
+         )}
+      </div>
+
       {/* Import/Export Modal */}
       {showDataModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200 p-4">
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { HighlightRange, LabMention, QuestionAnnotations } from '../types';
+
+export const EMPTY_ANNOTATIONS: QuestionAnnotations = { struckOptions: [], highlights: [] };
+
+// Overlapping or touching ranges fold into one, so highlights never nest
+export const addHighlight = (ranges: HighlightRange[], next: HighlightRange): HighlightRange[] => {
+  const sorted = [...ranges, next].sort((a, b) => a.start - b.start);
+  return sorted.reduce<HighlightRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+    return merged;
+  }, []);
+};
+
+// Offsets of the current selection within the container's text, or null when it falls outside or is empty
+export const selectionOffsets = (container: HTMLElement): HighlightRange | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+
+  const prefix = range.cloneRange();
+  prefix.selectNodeContents(container);
+  prefix.setEnd(range.startContainer, range.startOffset);
+  const start = prefix.toString().length;
+  const end = start + range.toString().length;
+  return end > start ? { start, end } : null;
+};
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: HighlightRange[];
+  onRemove?: (index: number) => void;
+  labMentions?: LabMention[];
+  onLabClick?: (labId: string) => void;
+}
+
+// Highlights and lab mentions may overlap, so the text is cut at every boundary of either
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights, onRemove, labMentions = [], onLabClick }) => {
+  const mentions = onLabClick ? labMentions : [];
+  const cuts = [...new Set([0, text.length, ...highlights.flatMap(r => [r.start, r.end]), ...mentions.flatMap(m => [m.start, m.end])])]
+    .filter(cut => cut >= 0 && cut <= text.length)
+    .sort((a, b) => a - b);
+
+  const segments: React.ReactNode[] = [];
+  cuts.slice(0, -1).forEach((start, i) => {
+    const end = cuts[i + 1];
+    const highlightIdx = highlights.findIndex(r => r.start <= start && end <= r.end);
+    const mention = mentions.find(m => m.start <= start && end <= m.end);
+    let segment: React.ReactNode = text.slice(start, end);
+    if (mention) {
+      segment = (
+        <span
+          onClick={(e) => { e.stopPropagation(); onLabClick!(mention.labId); }}
+          title="Show reference range"
+          className="underline decoration-dotted decoration-blue-400 underline-offset-4 cursor-help hover:text-blue-600 dark:hover:text-blue-400"
+        >
+          {segment}
+        </span>
+      );
+    }
+    if (highlightIdx >= 0) {
+      segment = (
+        <mark
+          onClick={onRemove ? (e) => { e.stopPropagation(); onRemove(highlightIdx); } : undefined}
+          title={onRemove ? 'Click to remove highlight' : undefined}
+          className={`bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm ${onRemove ? 'cursor-pointer' : ''}`}
+        >
+          {segment}
+        </mark>
+      );
+    }
+    segments.push(<React.Fragment key={start}>{segment}</React.Fragment>);
+  });
+  return <>{segments}</>;
+};
+
+interface QuestionNoteProps {
+  note?: string;
+  onSave: (note: string) => void;
+}
+
+// Saves on blur; mount with a key per question so the draft resets when the question changes
+export const QuestionNote: React.FC<QuestionNoteProps> = ({ note = '', onSave }) => {
+  const [draft, setDraft] = useState(note);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between px-1 mb-2">
+        <h4 className="text-[8px] sm:text-[10px] font-black text-slate-400 uppercase tracking-widest">My Notes</h4>
+        {draft.trim() !== note && <span className="text-[8px] sm:text-[10px] font-black text-amber-500 uppercase tracking-widest">Unsaved</span>}
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          const trimmed = draft.trim();
+          setDraft(trimmed);
+          if (trimmed !== note) onSave(trimmed);
+        }}
+        placeholder="Mnemonics, the finding you missed, what to look up..."
+        className="w-full p-3 sm:p-4 text-xs sm:text-sm bg-amber-50/50 dark:bg-amber-900/10 border-2 border-amber-100 dark:border-amber-900/30 rounded-xl outline-none focus:border-amber-400 transition-all text-slate-800 dark:text-slate-100 placeholder-slate-400 min-h-[80px] resize-y"
+      />
+    </div>
+  );
+};
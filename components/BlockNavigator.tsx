@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Question } from '../types';
+
+interface BlockNavigatorProps {
+  questions: Question[];
+  userAnswers: number[];
+  currentIndex: number;
+  // The answer on screen, which tutor mode only commits on Continue
+  currentSelection: number | null;
+  pendingCount: number;
+  flaggedIds: string[];
+  skippedIds: string[];
+  onJump: (index: number) => void;
+}
+
+type ItemStatus = 'answered' | 'unanswered' | 'skipped';
+
+const STATUS_STYLES: Record<ItemStatus, string> = {
+  answered: 'bg-blue-600 border-blue-600 text-white',
+  unanswered: 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-blue-400',
+  skipped: 'bg-slate-100 dark:bg-slate-800 border-dashed border-slate-400 dark:border-slate-500 text-slate-500 dark:text-slate-400 hover:border-blue-400'
+};
+
+export const BlockNavigator: React.FC<BlockNavigatorProps> = ({
+  questions,
+  userAnswers,
+  currentIndex,
+  currentSelection,
+  pendingCount,
+  flaggedIds,
+  skippedIds,
+  onJump
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const statusOf = (q: Question, idx: number): ItemStatus => {
+    const answer = idx === currentIndex ? currentSelection ?? userAnswers[idx] : userAnswers[idx];
+    if (answer != null) return 'answered';
+    return skippedIds.includes(q.id) ? 'skipped' : 'unanswered';
+  };
+
+  const statuses = questions.map(statusOf);
+  const answeredCount = statuses.filter(s => s === 'answered').length;
+  const flaggedCount = questions.filter(q => flaggedIds.includes(q.id)).length;
+
+  return (
+    <div className="max-w-4xl mx-auto w-full bg-white dark:bg-slate-900 rounded-[1.25rem] sm:rounded-[1.5rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-3 px-4 sm:px-6 py-3 text-[10px] sm:text-xs font-black uppercase tracking-widest text-slate-500 dark:text-slate-400"
+      >
+        <span>Navigator</span>
+        <span className="flex items-center gap-3">
+          <span>{answeredCount} / {questions.length + pendingCount} Answered</span>
+          {flaggedCount > 0 && <span className="text-amber-500">{flaggedCount} Flagged</span>}
+          <svg className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 sm:px-6 pb-4 space-y-3 animate-in slide-in-from-top-2 duration-200">
+          <div className="grid grid-cols-8 sm:grid-cols-10 gap-1.5 sm:gap-2">
+            {questions.map((q, idx) => (
+              <button
+                key={q.id}
+                onClick={() => onJump(idx)}
+                title={`Item ${idx + 1}: ${statuses[idx]}${flaggedIds.includes(q.id) ? ', flagged' : ''}`}
+                className={`relative h-8 sm:h-9 rounded-lg border-2 text-[10px] sm:text-xs font-black transition-all ${STATUS_STYLES[statuses[idx]]} ${idx === currentIndex ? 'ring-2 ring-offset-2 ring-indigo-500 dark:ring-offset-slate-900' : ''}`}
+              >
+                {idx + 1}
+                {flaggedIds.includes(q.id) && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-amber-500 border-2 border-white dark:border-slate-900" />}
+              </button>
+            ))}
+            {Array.from({ length: pendingCount }, (_, i) => (
+              <div key={`pending-${i}`} className="h-8 sm:h-9 rounded-lg border-2 border-dashed border-slate-100 dark:border-slate-800 flex items-center justify-center text-[10px] sm:text-xs font-black text-slate-300 dark:text-slate-600 animate-pulse">
+                {questions.length + i + 1}
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 text-[9px] sm:text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-blue-600" />Answered</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm border-2 border-slate-300 dark:border-slate-600" />Unanswered</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm border-2 border-dashed border-slate-400" />Skipped</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-amber-500" />Flagged</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
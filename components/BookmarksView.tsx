@@ -2,7 +2,10 @@
 import React, { useState } from 'react';
 import { Question, MasteryCard } from '../types';
 import { Button } from './Button';
-import { deepDiveExplanation } from '../services/geminiService';
+import { jobQueue } from '../services/jobQueue';
+import { notifyAIError } from '../services/notificationService';
+import { QuestionNote } from './Annotations';
+import { useKeyboardShortcuts } from './KeyboardShortcuts';
 
 interface BookmarksViewProps {
   bookmarks: Question[];
@@ -10,6 +13,7 @@ interface BookmarksViewProps {
   onRemove: (q: Question) => void;
   masteryLayers: Record<string, MasteryCard[]>;
   onDissect: (q: Question) => Promise<void>;
+  onUpdateNote?: (q: Question, note: string) => void;
 }
 
 const SimpleMarkdown: React.FC<{ content: string }> = ({ content }) => {
@@ -56,7 +60,7 @@ const parseBold = (text: string) => {
   return parsed;
 };
 
-export const BookmarksView: React.FC<BookmarksViewProps> = ({ bookmarks, onClose, onRemove, masteryLayers, onDissect }) => {
+export const BookmarksView: React.FC<BookmarksViewProps> = ({ bookmarks, onClose, onRemove, masteryLayers, onDissect, onUpdateNote }) => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [deepDives, setDeepDives] = useState<Record<string, string>>({});
   const [loadingIds, setLoadingIds] = useState<Set<string>>(new Set());
@@ -68,8 +72,10 @@ export const BookmarksView: React.FC<BookmarksViewProps> = ({ bookmarks, onClose
     if (deepDives[q.id]) return;
     setLoadingIds(prev => new Set(prev).add(q.id));
     try {
-      const insight = await deepDiveExplanation(q);
+      const insight = await jobQueue.enqueue<string>('deepDive', 'Deep dive', { question: q });
       setDeepDives(prev => ({ ...prev, [q.id]: insight }));
+    } catch (err) {
+      notifyAIError(err);
     } finally {
       setLoadingIds(prev => { const next = new Set(prev); next.delete(q.id); return next; });
     }
@@ -100,6 +106,21 @@ export const BookmarksView: React.FC<BookmarksViewProps> = ({ bookmarks, onClose
     }
   };
 
+  const expandedLayers = expandedId ? masteryLayers[expandedId] || [] : [];
+
+  const stepLayer = (delta: number) => {
+    const next = activeLayer + delta;
+    if (next < 0 || next >= expandedLayers.length) return;
+    setActiveLayer(next);
+    setIsFlipped(false);
+  };
+
+  useKeyboardShortcuts({
+    flip: () => setIsFlipped(flipped => !flipped),
+    next: () => stepLayer(1),
+    prev: () => stepLayer(-1)
+  }, expandedLayers.length > 0);
+
   const getLayerColor = (type: string) => {
     switch(type) {
       case 'Pathophysiology': return 'bg-purple-600';
@@ -161,6 +182,7 @@ export const BookmarksView: React.FC<BookmarksViewProps> = ({ bookmarks, onClose
 
                 {isExpanded && (
                   <div className="px-4 sm:px-8 pb-6 sm:pb-10 space-y-6 sm:space-y-10 animate-in slide-in-from-top-4 duration-500 overflow-hidden w-full box-border">
+                    {onUpdateNote && <QuestionNote key={q.id} note={q.note} onSave={(note) => onUpdateNote(q, note)} />}
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-10 items-start w-full">
                       <div className="space-y-4 sm:space-y-6 w-full overflow-hidden">
                         <div className="flex justify-between items-center px-1">
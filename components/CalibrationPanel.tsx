@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { Confidence, HistoricalSession, Question } from '../types';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { contentNodes } from '../services/tagTaxonomy';
+
+interface CalibrationPanelProps {
+  history: HistoricalSession[];
+  questionLibrary: Record<string, Question>;
+}
+
+const LEVELS: { key: Confidence; label: string; color: string }[] = [
+  { key: 'sure', label: 'Sure', color: '#10b981' },
+  { key: 'unsure', label: 'Unsure', color: '#f59e0b' },
+  { key: 'guess', label: 'Guess', color: '#94a3b8' }
+];
+
+const TOP_TARGETS = 5;
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ history, questionLibrary }) => {
+  const calibration = useMemo(() => {
+    const items = history.flatMap(s => s.details || []).filter(d => d.confidence && !d.omitted);
+    if (items.length === 0) return null;
+
+    const levels = LEVELS.map(level => {
+      const rated = items.filter(d => d.confidence === level.key);
+      const correct = rated.filter(d => d.isCorrect).length;
+      return { ...level, total: rated.length, correct, accuracy: rated.length ? Math.round((correct / rated.length) * 100) : 0 };
+    });
+
+    // Being sure and wrong means a misconception, not a gap, so those topics come first
+    const tagCounts: Record<string, number> = {};
+    const confidentlyWrong = items.filter(d => d.confidence === 'sure' && !d.isCorrect);
+    confidentlyWrong.forEach(d => {
+      contentNodes(d.tags || questionLibrary[d.questionId]?.tags).forEach(node => {
+        tagCounts[node.label] = (tagCounts[node.label] || 0) + 1;
+      });
+    });
+    const targets = Object.entries(tagCounts)
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      .slice(0, TOP_TARGETS);
+
+    const luckyGuesses = items.filter(d => d.confidence === 'guess' && d.isCorrect).length;
+    return { total: items.length, levels, confidentlyWrong: confidentlyWrong.length, targets, luckyGuesses };
+  }, [history, questionLibrary]);
+
+  if (!calibration) {
+    return (
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Confidence Calibration</h3>
+        <p className="text-xs text-slate-500 mt-1">Rate your confidence on a question (Sure / Unsure / Guess) to see how well it predicts your accuracy.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Confidence Calibration</h3>
+          <p className="text-xs text-slate-500">Accuracy by self-rated confidence across {calibration.total} rated items.</p>
+        </div>
+        <div className="w-full h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={calibration.levels}>
+              <XAxis dataKey="label" tick={{ fill: '#64748b', fontSize: 10, fontWeight: 900 }} axisLine={false} tickLine={false} />
+              <YAxis domain={[0, 100]} hide />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '12px', color: 'white' }}
+                itemStyle={{ color: '#e2e8f0' }}
+                formatter={(value, _name, entry) => [`${value}% (${entry.payload.correct}/${entry.payload.total})`, 'Accuracy']}
+              />
+              <Bar dataKey="accuracy" name="Accuracy" radius={[6, 6, 0, 0]}>
+                {calibration.levels.map(level => <Cell key={level.key} fill={level.color} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="grid grid-cols-3 gap-4 mt-4">
+          {calibration.levels.map(level => (
+            <div key={level.key} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl text-center">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{level.label}</p>
+              <p className="text-xl font-black text-slate-700 dark:text-slate-200">{level.total ? `${level.accuracy}%` : '—'}</p>
+              <p className="text-[10px] text-slate-500">{level.total} rated</p>
+            </div>
+          ))}
+        </div>
+        {calibration.luckyGuesses > 0 && (
+          <p className="mt-4 text-xs font-bold text-amber-600 dark:text-amber-400">
+            {calibration.luckyGuesses} correct guess{calibration.luckyGuesses === 1 ? '' : 'es'} counted as weak for spaced repetition.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col">
+        <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Top Remediation Targets</h3>
+        <p className="text-xs text-slate-500 mb-4">Topics you were sure of and still missed ({calibration.confidentlyWrong} items).</p>
+        {calibration.targets.length === 0 ? (
+          <p className="text-xs text-slate-400 italic">No confidently wrong answers yet.</p>
+        ) : (
+          <div className="space-y-3 flex-1">
+            {calibration.targets.map((target, idx) => (
+              <div key={target.name} className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/10 rounded-2xl border border-red-100 dark:border-red-900/20">
+                <span className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate pr-2">{idx + 1}. {target.name}</span>
+                <span className="text-xs font-black text-red-600 dark:text-red-400 shrink-0">{target.count} sure &amp; wrong</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
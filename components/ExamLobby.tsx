@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { ExamAttempt, Job } from '../types';
+import { jobQueue } from '../services/jobQueue';
+import { breakUsedMs, examPrepJobId, nextBlockNumber } from '../services/examSimulation';
+import { TIMED_SECONDS_PER_QUESTION } from './QuizSetup';
+import { Button } from './Button';
+
+interface ExamLobbyProps {
+  attempt: ExamAttempt;
+  onStartBlock: () => void;
+  onPrepare: () => void;
+  onEndExam: () => void;
+}
+
+const formatClock = (ms: number): string => {
+  const totalSec = Math.round(Math.abs(ms) / 1000);
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+// Between blocks: shows the break clock and readiness of the next block
+export const ExamLobby: React.FC<ExamLobbyProps> = ({ attempt, onStartBlock, onPrepare, onEndExam }) => {
+  const [now, setNow] = useState(Date.now());
+  const [prepJob, setPrepJob] = useState<Job | undefined>(undefined);
+  const blockNumber = nextBlockNumber(attempt);
+  const jobId = examPrepJobId(attempt.id, blockNumber);
+
+  useEffect(() => jobQueue.subscribe(jobs => setPrepJob(jobs.find(j => j.id === jobId))), [jobId]);
+
+  useEffect(() => {
+    if (attempt.breakStartedAt === undefined) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [attempt.breakStartedAt]);
+
+  const ready = attempt.preparedFor === blockNumber ? attempt.prepared.length : 0;
+  const isPreparing = !!prepJob && prepJob.status !== 'failed';
+  // A short block is allowed once preparation has given up, rather than stranding the attempt
+  const canStart = ready >= attempt.blockSize || (ready > 0 && !isPreparing);
+  const breakLeft = attempt.breakBudgetMs - breakUsedMs(attempt, now);
+  const onBreak = attempt.breakStartedAt !== undefined;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 pb-12">
+      <div className="bg-white dark:bg-slate-900 p-8 rounded-3xl shadow-xl shadow-slate-200/50 dark:shadow-none border border-slate-100 dark:border-slate-800 space-y-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-800 dark:text-slate-100">{attempt.examType} Simulation</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-sm font-medium">
+            {attempt.blockCount} blocks · {attempt.blockSize} items · {(attempt.blockSize * TIMED_SECONDS_PER_QUESTION) / 60} min each
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {Array.from({ length: attempt.blockCount }, (_, idx) => (
+            <div
+              key={idx}
+              className={`flex-1 h-3 rounded-full ${idx < attempt.blockSessionIds.length ? 'bg-blue-600' : idx === blockNumber - 1 ? 'bg-blue-200 dark:bg-blue-900 animate-pulse' : 'bg-slate-200 dark:bg-slate-800'}`}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className={`p-5 rounded-2xl border ${breakLeft < 0 ? 'bg-red-50 dark:bg-red-900/10 border-red-100 dark:border-red-900/20' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-100 dark:border-slate-800'}`}>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{onBreak ? 'On Break' : 'Break Budget'}</p>
+            <p className={`text-3xl font-black tabular-nums ${breakLeft < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-200'}`}>
+              {breakLeft < 0 ? '-' : ''}{formatClock(breakLeft)}
+            </p>
+            <p className="text-[10px] text-slate-500 mt-1">{breakLeft < 0 ? 'Over the break allowance' : 'Left for the whole exam'}</p>
+          </div>
+          <div className="p-5 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-800">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Block {blockNumber} Ready</p>
+            <p className="text-3xl font-black text-slate-700 dark:text-slate-200 tabular-nums">{ready} / {attempt.blockSize}</p>
+            <div className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden mt-2">
+              <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${(ready / attempt.blockSize) * 100}%` }} />
+            </div>
+          </div>
+        </div>
+
+        {prepJob?.status === 'failed' && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/10 rounded-2xl border border-red-100 dark:border-red-900/20 flex items-center justify-between gap-3">
+            <p className="text-xs font-bold text-red-600 dark:text-red-400">Preparing block {blockNumber} failed{prepJob.error ? `: ${prepJob.error}` : '.'}</p>
+            <button onClick={() => jobQueue.retry(prepJob.id)} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest hover:underline shrink-0">Retry</button>
+          </div>
+        )}
+        {!prepJob && ready < attempt.blockSize && (
+          <button onClick={onPrepare} className="text-xs font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest hover:underline">
+            Prepare the remaining {attempt.blockSize - ready} items
+          </button>
+        )}
+
+        <Button variant="primary" className="w-full py-5 text-lg rounded-2xl shadow-xl shadow-blue-500/20" disabled={!canStart} onClick={onStartBlock}>
+          {canStart ? `Start Block ${blockNumber}` : `Preparing Block ${blockNumber}...`}
+        </Button>
+        <button onClick={onEndExam} className="w-full text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-red-500 transition-colors">
+          End Exam Early
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { ExamAttempt, ExamType, HistoricalSession, MedicalSpecialty } from '../types';
+import { predictScaledScore, passThreshold } from './PredictiveScore';
+import { TIMED_SECONDS_PER_QUESTION } from './QuizSetup';
+import { Button } from './Button';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+
+interface ExamReportProps {
+  attempt: ExamAttempt;
+  history: HistoricalSession[];
+  onClose: () => void;
+}
+
+const formatMinutes = (ms: number): string => {
+  const totalSec = Math.round(ms / 1000);
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+const accuracyColor = (accuracy: number) => accuracy >= 70 ? '#10b981' : accuracy >= 55 ? '#f59e0b' : '#ef4444';
+
+export const ExamReport: React.FC<ExamReportProps> = ({ attempt, history, onClose }) => {
+  const report = useMemo(() => {
+    const blocks = attempt.blockSessionIds
+      .map(id => history.find(h => h.id === id))
+      .filter((s): s is HistoricalSession => !!s)
+      .map((s, idx) => ({
+        label: `Block ${idx + 1}`,
+        correct: s.correctAnswers,
+        total: s.totalQuestions,
+        omitted: s.omittedAnswers || 0,
+        accuracy: Math.round((s.correctAnswers / s.totalQuestions) * 100),
+        timeTakenMs: s.timeTakenMs,
+        allottedMs: s.totalQuestions * TIMED_SECONDS_PER_QUESTION * 1000
+      }));
+
+    const disciplines: Partial<Record<MedicalSpecialty, { correct: number; total: number }>> = {};
+    attempt.blockSessionIds.forEach(id => history.find(h => h.id === id)?.details?.forEach(d => {
+      if (!d.specialty) return;
+      const entry = disciplines[d.specialty] || { correct: 0, total: 0 };
+      entry.total += 1;
+      if (d.isCorrect) entry.correct += 1;
+      disciplines[d.specialty] = entry;
+    }));
+
+    const correct = blocks.reduce((acc, b) => acc + b.correct, 0);
+    const total = blocks.reduce((acc, b) => acc + b.total, 0);
+    const accuracy = total ? (correct / total) * 100 : 0;
+    const isStep3 = attempt.examType === ExamType.STEP_3;
+    return {
+      blocks,
+      disciplines: (Object.entries(disciplines) as [MedicalSpecialty, { correct: number; total: number }][])
+        .map(([name, d]) => ({ name, ...d, accuracy: Math.round((d.correct / d.total) * 100) }))
+        .sort((a, b) => b.total - a.total),
+      correct,
+      total,
+      accuracy: Math.round(accuracy),
+      score: predictScaledScore(accuracy, isStep3),
+      passThreshold: passThreshold(isStep3)
+    };
+  }, [attempt, history]);
+
+  const breakOverMs = attempt.breakUsedMs - attempt.breakBudgetMs;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 pb-12">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-black text-slate-800 dark:text-slate-100">Self-Assessment Report</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-sm font-medium">
+            {attempt.examType} · {new Date(attempt.startedAt).toLocaleDateString()} · {report.blocks.length} of {attempt.blockCount} blocks completed
+          </p>
+        </div>
+        <Button variant="outline" onClick={onClose}>Close</Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-gradient-to-br from-indigo-600 to-blue-700 p-6 rounded-[2rem] text-white shadow-xl">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-70 mb-1">Estimated Score</p>
+          <p className="text-5xl font-black tracking-tighter">{report.score}</p>
+          <p className="text-xs font-bold opacity-80 mt-1">{report.score >= report.passThreshold ? 'Above' : 'Below'} the ~{report.passThreshold} passing standard</p>
+        </div>
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Percent Correct</p>
+          <p className="text-4xl font-black text-slate-800 dark:text-slate-100">{report.accuracy}%</p>
+          <p className="text-xs text-slate-500 mt-1">{report.correct} of {report.total} items</p>
+        </div>
+        <div className={`p-6 rounded-[2rem] border shadow-sm ${breakOverMs > 0 ? 'bg-red-50 dark:bg-red-900/10 border-red-100 dark:border-red-900/20' : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800'}`}>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Break Time Used</p>
+          <p className={`text-4xl font-black ${breakOverMs > 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-100'}`}>{formatMinutes(attempt.breakUsedMs)}</p>
+          <p className="text-xs text-slate-500 mt-1">{breakOverMs > 0 ? `${formatMinutes(breakOverMs)} over` : 'Within'} the {attempt.breakBudgetMs / 60000}-minute allowance</p>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Performance by Block</h3>
+        <p className="text-xs text-slate-500 mb-4">Late-block drops usually point to stamina rather than knowledge.</p>
+        <div className="w-full h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={report.blocks}>
+              <XAxis dataKey="label" tick={{ fill: '#64748b', fontSize: 10, fontWeight: 900 }} axisLine={false} tickLine={false} />
+              <YAxis domain={[0, 100]} hide />
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '12px', color: 'white' }} itemStyle={{ color: '#e2e8f0' }} formatter={(value) => [`${value}%`, 'Correct']} />
+              <Bar dataKey="accuracy" radius={[6, 6, 0, 0]}>
+                {report.blocks.map(block => <Cell key={block.label} fill={accuracyColor(block.accuracy)} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-4 space-y-2">
+          {report.blocks.map(block => (
+            <div key={block.label} className="grid grid-cols-12 gap-2 items-center p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-xs">
+              <span className="col-span-3 font-black text-slate-700 dark:text-slate-200">{block.label}</span>
+              <span className="col-span-3 font-bold text-slate-600 dark:text-slate-300">{block.correct}/{block.total} · {block.accuracy}%</span>
+              <span className={`col-span-4 font-bold ${block.timeTakenMs > block.allottedMs ? 'text-red-500' : 'text-slate-500'}`}>
+                {formatMinutes(block.timeTakenMs)} of {formatMinutes(block.allottedMs)} used
+              </span>
+              <span className="col-span-2 text-right font-bold text-slate-400">{block.omitted > 0 ? `${block.omitted} omitted` : ''}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Performance by Discipline</h3>
+        <p className="text-xs text-slate-500 mb-4">Each item is scored under the discipline it was drawn for in the content mix.</p>
+        <div className="space-y-3">
+          {report.disciplines.map(d => (
+            <div key={d.name} className="grid grid-cols-12 gap-3 items-center">
+              <span className="col-span-4 text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{d.name}</span>
+              <div className="col-span-6 h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full rounded-full" style={{ width: `${d.accuracy}%`, backgroundColor: accuracyColor(d.accuracy) }} />
+              </div>
+              <span className="col-span-2 text-right text-xs font-black text-slate-600 dark:text-slate-300">{d.accuracy}% <span className="text-slate-400 font-bold">({d.total})</span></span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { ClinicalComplexity, ExamType, HistoricalSession, HistoryFilter, MedicalSpecialty } from '../types';
+import { Button } from './Button';
+import { canDelete, canMerge, filterHistory } from '../services/historyEdits';
+
+interface HistoryViewProps {
+  history: HistoricalSession[];
+  onReview: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  onToggleExcluded: (sessionId: string) => void;
+  onMerge: (sessionIds: string[]) => void;
+  onClose: () => void;
+}
+
+export const formatDuration = (ms: number): string => {
+  const totalSec = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSec / 60);
+  return minutes > 0 ? `${minutes}m ${String(totalSec % 60).padStart(2, '0')}s` : `${totalSec}s`;
+};
+
+const scoreColor = (accuracy: number) => accuracy >= 70 ? 'text-green-500' : accuracy >= 55 ? 'text-amber-500' : 'text-red-500';
+
+const controlClass = "p-2.5 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl outline-none text-xs font-bold text-slate-600 dark:text-slate-300";
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ history, onReview, onDelete, onToggleExcluded, onMerge, onClose }) => {
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const updateFilter = (update: Partial<HistoryFilter>) => setFilter(prev => ({ ...prev, ...update }));
+  const visible = filterHistory(history, filter);
+  const isFiltered = Object.values(filter).some(Boolean);
+  // Ids of sessions since deleted or merged away drop out of the selection on their own
+  const selected = history.filter(s => selectedIds.includes(s.id));
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const handleMerge = () => {
+    onMerge(selected.map(s => s.id));
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 pb-20 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-slate-100">Block History</h2>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+            {isFiltered ? `${visible.length} of ${history.length}` : history.length} Completed Blocks
+          </p>
+        </div>
+        <Button variant="outline" onClick={onClose}>Close</Button>
+      </div>
+
+      {history.length > 0 && (
+        <div className="bg-white dark:bg-slate-900 p-5 rounded-[1.5rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            <input type="date" value={filter.from || ''} onChange={(e) => updateFilter({ from: e.target.value || undefined })} className={controlClass} title="From" />
+            <input type="date" value={filter.to || ''} onChange={(e) => updateFilter({ to: e.target.value || undefined })} className={controlClass} title="To" />
+            <select value={filter.specialty || ''} onChange={(e) => updateFilter({ specialty: (e.target.value || undefined) as MedicalSpecialty | undefined })} className={controlClass}>
+              <option value="">Any specialty</option>
+              {Object.values(MedicalSpecialty).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select value={filter.examType || ''} onChange={(e) => updateFilter({ examType: (e.target.value || undefined) as ExamType | undefined })} className={controlClass}>
+              <option value="">Any exam</option>
+              {Object.values(ExamType).map(e => <option key={e} value={e}>{e}</option>)}
+            </select>
+            <select value={filter.complexity || ''} onChange={(e) => updateFilter({ complexity: (e.target.value || undefined) as ClinicalComplexity | undefined })} className={controlClass}>
+              <option value="">Any complexity</option>
+              {Object.values(ClinicalComplexity).map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            {isFiltered ? (
+              <button onClick={() => setFilter({})} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest hover:underline">Clear Filters</button>
+            ) : <span />}
+            {selected.length > 0 && (
+              <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{selected.length} Selected</span>
+                <Button
+                  variant="secondary"
+                  className="text-xs px-4 py-1.5"
+                  disabled={!canMerge(selected)}
+                  title={canMerge(selected) ? 'Combine into one block' : 'Select two or more blocks outside simulated exams'}
+                  onClick={handleMerge}
+                >
+                  Merge
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="text-center py-20 bg-white dark:bg-slate-900 rounded-[2rem] border border-dashed border-slate-200 dark:border-slate-800">
+          <p className="text-slate-400 font-black uppercase tracking-widest text-sm">{isFiltered ? 'No blocks match these filters' : 'No completed blocks yet'}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(session => {
+            const accuracy = Math.round((session.correctAnswers / session.totalQuestions) * 100);
+            const canReview = !!session.details?.length;
+            return (
+              <div key={session.id} className={`bg-white dark:bg-slate-900 p-5 rounded-2xl border shadow-sm flex items-center gap-4 ${
+                selectedIds.includes(session.id) ? 'border-blue-300 dark:border-blue-800' : 'border-slate-100 dark:border-slate-800'
+              } ${session.excludedFromAnalytics ? 'opacity-60' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(session.id)}
+                  onChange={() => toggleSelected(session.id)}
+                  className="w-4 h-4 accent-blue-600 flex-shrink-0"
+                />
+                <div className="w-16 text-center flex-shrink-0">
+                  <p className={`text-2xl font-black ${scoreColor(accuracy)}`}>{accuracy}%</p>
+                  <p className="text-[10px] font-bold text-slate-400">{session.correctAnswers}/{session.totalQuestions}</p>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{session.specialties.join(', ')}</p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                    {new Date(session.timestamp).toLocaleString()} · {session.mode === 'timed' ? 'Timed' : 'Tutor'}{session.complexity ? ` · ${session.complexity}` : ''} · {formatDuration(session.timeTakenMs)}
+                  </p>
+                  {session.excludedFromAnalytics && (
+                    <p className="text-[10px] font-black text-amber-500 uppercase tracking-widest mt-1">Excluded from analytics</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => onToggleExcluded(session.id)}
+                    className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-amber-500 transition-colors"
+                  >
+                    {session.excludedFromAnalytics ? 'Include' : 'Exclude'}
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    disabled={!canDelete(session)}
+                    title={canDelete(session) ? undefined : 'Part of a simulated exam; exclude it from analytics instead'}
+                    className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-red-500 transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+                  >
+                    Delete
+                  </button>
+                  <Button
+                    variant="secondary"
+                    className="text-xs px-4 py-2"
+                    disabled={!canReview}
+                    title={canReview ? undefined : 'Recorded before per-item results were kept'}
+                    onClick={() => onReview(session.id)}
+                  >
+                    Review
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
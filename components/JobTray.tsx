@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { Job } from '../types';
+import { jobQueue } from '../services/jobQueue';
+
+export const JobTray: React.FC = () => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => jobQueue.subscribe(setJobs), []);
+
+  useEffect(() => {
+    if (jobs.length === 0) setIsOpen(false);
+  }, [jobs.length]);
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(j => j.status !== 'failed').length;
+  const failedCount = jobs.length - activeCount;
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className={`p-2 rounded-xl relative flex items-center gap-1.5 ${isOpen ? 'bg-blue-600 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}>
+        {activeCount > 0 ? (
+          <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+        ) : (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h10" /></svg>
+        )}
+        {activeCount > 0 && <span className="text-[10px] font-black">{activeCount}</span>}
+        {failedCount > 0 && <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full text-[8px] flex items-center justify-center text-white">{failedCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 shadow-2xl p-3 space-y-2 z-50">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Background Jobs</p>
+          {jobs.map(job => (
+            <div key={job.id} className={`p-3 rounded-xl border ${job.status === 'failed' ? 'border-red-100 dark:border-red-900/40 bg-red-50/50 dark:bg-red-900/10' : 'border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/50'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">{job.label}</p>
+                <span className={`text-[9px] font-black uppercase tracking-widest shrink-0 ${job.status === 'failed' ? 'text-red-500' : job.status === 'running' ? 'text-blue-500' : 'text-slate-400'}`}>{job.status}</span>
+              </div>
+              {job.status !== 'failed' && (
+                <div className="w-full h-1 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden mt-2">
+                  <div className={`h-full bg-blue-500 transition-all duration-500 ${job.progress === 0 && job.status === 'running' ? 'w-1/3 animate-pulse' : ''}`} style={job.progress > 0 ? { width: `${job.progress}%` } : undefined} />
+                </div>
+              )}
+              {job.error && <p className="text-[10px] text-red-500 mt-1.5 line-clamp-2">{job.error}</p>}
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{job.retries > 0 ? `${job.retries} ${job.retries === 1 ? 'retry' : 'retries'}` : ''}</span>
+                <div className="flex gap-3">
+                  {job.status === 'failed' ? (
+                    <>
+                      <button onClick={() => jobQueue.retry(job.id)} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest hover:underline">Retry</button>
+                      <button onClick={() => jobQueue.dismiss(job.id)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:underline">Dismiss</button>
+                    </>
+                  ) : (
+                    <button onClick={() => jobQueue.cancel(job.id)} className="text-[10px] font-black text-red-500 uppercase tracking-widest hover:underline">Cancel</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ShortcutAction } from '../types';
+import { SHORTCUTS, ShortcutContext, actionForKey, keyLabel, loadKeyBindings, normalizeKey } from '../services/keyboardShortcuts';
+
+type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Binds the handled actions to the user's keys for as long as the screen is mounted and enabled
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  const [bindings] = useState(loadKeyBindings);
+  // Handlers close over render state, so the listener reads the latest set instead of re-subscribing each render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Held keys would otherwise answer and advance through several items
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      const current = handlersRef.current;
+      const action = actionForKey(normalizeKey(e.key, e.shiftKey), bindings, Object.keys(current) as ShortcutAction[]);
+      const handler = action && current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled, bindings]);
+};
+
+interface ShortcutHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contexts: ShortcutContext[];
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ isOpen, onClose, contexts }) => {
+  useKeyboardShortcuts({ help: onClose }, isOpen);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onEscape);
+    return () => window.removeEventListener('keydown', onEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const bindings = loadKeyBindings();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200 p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="bg-white dark:bg-slate-900 w-full max-w-md p-8 rounded-[2rem] shadow-2xl border border-slate-200 dark:border-slate-700 space-y-4 animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black text-slate-800 dark:text-slate-100">Keyboard Shortcuts</h3>
+          <button onClick={onClose} className="text-xs font-black text-slate-400 uppercase tracking-widest hover:text-blue-600 dark:hover:text-blue-400">Close</button>
+        </div>
+        <div className="space-y-1.5 max-h-[60vh] overflow-y-auto">
+          {SHORTCUTS.filter(s => contexts.includes(s.context)).map(s => (
+            <div key={s.action} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-slate-600 dark:text-slate-300 font-medium">{s.label}</span>
+              <span className="flex gap-1">
+                {bindings[s.action].map(key => (
+                  <kbd key={key} className="px-2 py-0.5 rounded-md border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-[10px] font-black text-slate-600 dark:text-slate-300">{keyLabel(key)}</kbd>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Remap keys in Settings</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LabCategory } from '../types';
+import { LAB_CATEGORIES, searchLabs } from '../services/labValues';
+
+interface LabValuesDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Lab linked from the vignette; its row is scrolled into view and marked
+  focusLabId?: string | null;
+}
+
+// Side panel over the question; it never changes view, so a timed block's clock keeps running underneath
+export const LabValuesDrawer: React.FC<LabValuesDrawerProps> = ({ isOpen, onClose, focusLabId }) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<LabCategory | undefined>(undefined);
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    if (!isOpen || !focusLabId) return;
+    // Clear filters that could hide the linked row
+    setQuery('');
+    setCategory(undefined);
+    requestAnimationFrame(() => rowRefs.current[focusLabId]?.scrollIntoView({ block: 'center' }));
+  }, [isOpen, focusLabId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onEscape);
+    return () => window.removeEventListener('keydown', onEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const results = searchLabs(query, category);
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end bg-black/30 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md h-full bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-700 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300"
+      >
+        <div className="p-5 border-b border-slate-100 dark:border-slate-800 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Lab Values</h3>
+            <button onClick={onClose} className="text-xs font-black text-slate-400 uppercase tracking-widest hover:text-blue-600 dark:hover:text-blue-400">Close</button>
+          </div>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search tests..."
+            className="w-full p-3 text-sm bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-xl outline-none focus:border-blue-500 transition-all text-slate-800 dark:text-slate-100 placeholder-slate-400"
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {[undefined, ...LAB_CATEGORIES].map(c => (
+              <button
+                key={c || 'all'}
+                onClick={() => setCategory(c)}
+                className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${
+                  category === c ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-blue-400'
+                }`}
+              >
+                {c || 'All'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3">
+          <div className="grid grid-cols-12 gap-2 px-3 pb-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            <span className="col-span-5">Test</span>
+            <span className="col-span-4">Conventional</span>
+            <span className="col-span-3">SI</span>
+          </div>
+          {LAB_CATEGORIES.filter(c => results.some(lab => lab.category === c)).map(c => (
+            <div key={c} className="mb-4">
+              <h4 className="px-3 py-1 text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">{c}</h4>
+              {results.filter(lab => lab.category === c).map(lab => (
+                <div
+                  key={lab.id}
+                  ref={el => { rowRefs.current[lab.id] = el; }}
+                  className={`grid grid-cols-12 gap-2 px-3 py-2 rounded-xl text-xs ${
+                    lab.id === focusLabId ? 'bg-yellow-100 dark:bg-yellow-500/20' : 'odd:bg-slate-50 dark:odd:bg-slate-800/50'
+                  }`}
+                >
+                  <span className="col-span-5 font-bold text-slate-700 dark:text-slate-200">{lab.name}</span>
+                  <span className="col-span-4 text-slate-600 dark:text-slate-300 tabular-nums">{lab.conventional}</span>
+                  <span className="col-span-3 text-slate-500 dark:text-slate-400 tabular-nums">{lab.si}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+          {results.length === 0 && (
+            <p className="p-6 text-center text-sm text-slate-400">No tests match "{query}".</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { AppNotification, NotificationTone, notifications } from '../services/notificationService';
+
+const TONE_STYLES: Record<NotificationTone, string> = {
+  error: 'border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/60',
+  warning: 'border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-950/60',
+  info: 'border-blue-200 dark:border-blue-900/50 bg-blue-50 dark:bg-blue-950/60',
+  success: 'border-green-200 dark:border-green-900/50 bg-green-50 dark:bg-green-950/60'
+};
+
+const TONE_TEXT: Record<NotificationTone, string> = {
+  error: 'text-red-700 dark:text-red-300',
+  warning: 'text-amber-700 dark:text-amber-300',
+  info: 'text-blue-700 dark:text-blue-300',
+  success: 'text-green-700 dark:text-green-300'
+};
+
+export const NotificationCenter: React.FC = () => {
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => notifications.subscribe(setItems), []);
+
+  // Only tick while a countdown is on screen
+  const hasCountdown = items.some(n => n.countdownUntil && n.countdownUntil > now);
+  useEffect(() => {
+    if (!hasCountdown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasCountdown]);
+
+  useEffect(() => { setNow(Date.now()); }, [items]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 left-4 sm:left-auto sm:w-96 z-[60] space-y-3">
+      {items.map(n => {
+        const secondsLeft = n.countdownUntil ? Math.max(0, Math.ceil((n.countdownUntil - now) / 1000)) : 0;
+        return (
+          <div key={n.id} role="alert" className={`p-4 rounded-2xl border shadow-xl animate-in slide-in-from-bottom-4 fade-in duration-300 ${TONE_STYLES[n.tone]}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className={`text-sm font-black ${TONE_TEXT[n.tone]}`}>{n.title}</p>
+                {n.message && <p className="text-xs text-slate-600 dark:text-slate-300 mt-1 leading-relaxed">{n.message}</p>}
+                {secondsLeft > 0 && <p className={`text-[10px] font-black uppercase tracking-widest mt-2 ${TONE_TEXT[n.tone]}`}>Ready in {secondsLeft}s</p>}
+              </div>
+              <button onClick={() => notifications.dismiss(n.id)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 shrink-0" aria-label="Dismiss">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+            {n.actions && n.actions.length > 0 && (
+              <div className="flex gap-4 mt-3">
+                {n.actions.map(action => (
+                  <button
+                    key={action.label}
+                    disabled={action.waitForCountdown && secondsLeft > 0}
+                    onClick={() => { notifications.dismiss(n.id); action.onClick(); }}
+                    className={`text-[10px] font-black uppercase tracking-widest hover:underline disabled:opacity-40 disabled:no-underline disabled:cursor-not-allowed ${TONE_TEXT[n.tone]}`}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
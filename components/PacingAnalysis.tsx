@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { HistoricalSession, Question } from '../types';
+import { TIMED_SECONDS_PER_QUESTION } from './QuizSetup';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface PacingAnalysisProps {
+  history: HistoricalSession[];
+  questionLibrary: Record<string, Question>;
+}
+
+const PACE_BUCKETS = [
+  { label: '<30s', maxSec: 30 },
+  { label: '30-60s', maxSec: 60 },
+  { label: '60-90s', maxSec: 90 },
+  { label: '90-120s', maxSec: 120 },
+  { label: '2-3m', maxSec: 180 },
+  { label: '>3m', maxSec: Infinity }
+];
+
+// Slow means over exam pace; fast means under half of it, usually a snap judgement
+const SLOW_MS = TIMED_SECONDS_PER_QUESTION * 1000;
+const FAST_MS = SLOW_MS / 2;
+
+export const PacingAnalysis: React.FC<PacingAnalysisProps> = ({ history, questionLibrary }) => {
+  const pacing = useMemo(() => {
+    const items = history.flatMap(s => s.details || []).filter(d => d.timeSpentMs !== undefined);
+    if (items.length === 0) return null;
+
+    const distribution = PACE_BUCKETS.map(bucket => ({ label: bucket.label, correct: 0, incorrect: 0 }));
+    items.filter(d => !d.omitted).forEach(d => {
+      const idx = PACE_BUCKETS.findIndex(bucket => d.timeSpentMs! / 1000 < bucket.maxSec);
+      distribution[idx][d.isCorrect ? 'correct' : 'incorrect'] += 1;
+    });
+
+    const sortedTimes = items.map(d => d.timeSpentMs!).sort((a, b) => a - b);
+    const medianSec = Math.round(sortedTimes[Math.floor(sortedTimes.length / 2)] / 1000);
+    const correctItems = items.filter(d => d.isCorrect);
+    const wrongItems = items.filter(d => !d.isCorrect && !d.omitted);
+    const slowCorrect = correctItems.filter(d => d.timeSpentMs! > SLOW_MS).length;
+    const fastWrong = wrongItems.filter(d => d.timeSpentMs! < FAST_MS).length;
+
+    // Classified by where the first choice and the final choice landed against the key
+    const changes = { rightToWrong: 0, wrongToRight: 0, wrongToWrong: 0 };
+    let changedItems = 0;
+    items.forEach(d => {
+      const first = d.answerChanges?.[0]?.from;
+      const q = questionLibrary[d.questionId];
+      if (first === undefined || d.selectedIndex === undefined || first === d.selectedIndex || !q) return;
+      changedItems += 1;
+      if (first === q.correctIndex) changes.rightToWrong += 1;
+      else if (d.isCorrect) changes.wrongToRight += 1;
+      else changes.wrongToWrong += 1;
+    });
+
+    return {
+      total: items.length,
+      distribution,
+      medianSec,
+      slowCorrect,
+      slowCorrectPct: correctItems.length ? Math.round((slowCorrect / correctItems.length) * 100) : 0,
+      fastWrong,
+      fastWrongPct: wrongItems.length ? Math.round((fastWrong / wrongItems.length) * 100) : 0,
+      changes,
+      changedItems,
+      netChangeGain: changes.wrongToRight - changes.rightToWrong
+    };
+  }, [history, questionLibrary]);
+
+  if (!pacing) {
+    return (
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Pacing &amp; Answer Changes</h3>
+        <p className="text-xs text-slate-500 mt-1">Per-question timing is recorded from your next block onward.</p>
+      </div>
+    );
+  }
+
+  const changeRows = [
+    { label: 'Wrong → Right', value: pacing.changes.wrongToRight, color: 'bg-green-500' },
+    { label: 'Right → Wrong', value: pacing.changes.rightToWrong, color: 'bg-red-500' },
+    { label: 'Wrong → Wrong', value: pacing.changes.wrongToWrong, color: 'bg-slate-400' }
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+          <div>
+            <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Pacing Distribution</h3>
+            <p className="text-xs text-slate-500">Time on question across {pacing.total} tracked items · median {pacing.medianSec}s.</p>
+          </div>
+          <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+            <span className="flex items-center gap-1.5 text-green-600 dark:text-green-400"><span className="w-2.5 h-2.5 rounded-sm bg-green-500" />Correct</span>
+            <span className="flex items-center gap-1.5 text-red-600 dark:text-red-400"><span className="w-2.5 h-2.5 rounded-sm bg-red-500" />Missed</span>
+          </div>
+        </div>
+        <div className="w-full h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={pacing.distribution}>
+              <XAxis dataKey="label" tick={{ fill: '#64748b', fontSize: 10, fontWeight: 900 }} axisLine={false} tickLine={false} />
+              <Tooltip contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '12px', color: 'white' }} itemStyle={{ color: '#e2e8f0' }} />
+              <Bar dataKey="correct" name="Correct" stackId="pace" fill="#10b981" />
+              <Bar dataKey="incorrect" name="Missed" stackId="pace" fill="#ef4444" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="grid grid-cols-2 gap-4 mt-4">
+          <div className="p-4 bg-amber-50 dark:bg-amber-900/10 rounded-2xl border border-amber-100 dark:border-amber-900/20">
+            <p className="text-[10px] font-black text-amber-600 dark:text-amber-400 uppercase tracking-widest mb-1">Slow but Correct</p>
+            <p className="text-2xl font-black text-amber-700 dark:text-amber-300">{pacing.slowCorrect} <span className="text-xs font-bold opacity-70">{pacing.slowCorrectPct}% of correct</span></p>
+            <p className="text-[10px] text-slate-500 mt-1">Over {TIMED_SECONDS_PER_QUESTION}s: known, but not yet fluent.</p>
+          </div>
+          <div className="p-4 bg-red-50 dark:bg-red-900/10 rounded-2xl border border-red-100 dark:border-red-900/20">
+            <p className="text-[10px] font-black text-red-600 dark:text-red-400 uppercase tracking-widest mb-1">Fast but Wrong</p>
+            <p className="text-2xl font-black text-red-700 dark:text-red-300">{pacing.fastWrong} <span className="text-xs font-bold opacity-70">{pacing.fastWrongPct}% of missed</span></p>
+            <p className="text-[10px] text-slate-500 mt-1">Under {FAST_MS / 1000}s: likely misread or anchored early.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col">
+        <h3 className="text-lg font-black text-slate-800 dark:text-slate-100">Answer Changes</h3>
+        <p className="text-xs text-slate-500 mb-4">{pacing.changedItems} items where the final choice differed from the first.</p>
+        <div className="space-y-3 flex-1">
+          {changeRows.map(row => (
+            <div key={row.label} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs font-black uppercase text-slate-500">{row.label}</span>
+                <span className="text-sm font-black text-slate-700 dark:text-slate-200">{row.value}</span>
+              </div>
+              <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${row.color}`} style={{ width: `${pacing.changedItems ? (row.value / pacing.changedItems) * 100 : 0}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+        {pacing.changedItems > 0 && (
+          <p className={`mt-4 text-xs font-bold ${pacing.netChangeGain >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            Changing answers has {pacing.netChangeGain >= 0 ? 'gained' : 'cost'} you {Math.abs(pacing.netChangeGain)} net point{Math.abs(pacing.netChangeGain) === 1 ? '' : 's'}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,48 +2,69 @@
 import React, { useMemo } from 'react';
 import { HistoricalSession, ExamType } from '../types';
 
+// A full simulated exam predicts test day far better than an ad-hoc block, so it counts this many times over
+const SIMULATED_EXAM_WEIGHT = 3;
+const RECENT_UNITS = 10;
+
+// REALISTIC USMLE SCORING ALGORITHM
+// Step 2 CK: Passing ~214. Mean ~248. SD ~15.
+// Step 3: Passing ~198. Mean ~228. SD ~15.
+// A 60% accuracy roughly correlates to passing. 
+// <40% should be a clear fail.
+// New Baseline: 155 (Step 2), 145 (Step 3). 
+// Multiplier: 1.15 (Step 2), 1.1 (Step 3).
+// Examples (Step 2):
+// 27% -> 155 + 31 = 186 (Fail)
+// 60% -> 155 + 69 = 224 (Pass)
+// 80% -> 155 + 92 = 247 (Mean)
+export const predictScaledScore = (accuracy: number, isStep3: boolean): number =>
+  Math.round((isStep3 ? 145 : 155) + accuracy * (isStep3 ? 1.1 : 1.15));
+
+export const passThreshold = (isStep3: boolean): number => isStep3 ? 198 : 214;
+
 interface PredictiveScoreProps {
   history: HistoricalSession[];
   subtopicData: Array<{ name: string; accuracy: number }>;
 }
 
 export const PredictiveScore: React.FC<PredictiveScoreProps> = ({ history, subtopicData }) => {
+  // Each simulated exam folds into one unit scored across all its blocks; every other session is a unit of its own
+  const units = useMemo(() => {
+    const result: { correct: number; total: number; weight: number; isExam: boolean }[] = [];
+    const examUnits = new Map<string, { correct: number; total: number; weight: number; isExam: boolean }>();
+    history.forEach(s => {
+      const existing = s.examAttemptId ? examUnits.get(s.examAttemptId) : undefined;
+      if (existing) {
+        existing.correct += s.correctAnswers;
+        existing.total += s.totalQuestions;
+        return;
+      }
+      const unit = { correct: s.correctAnswers, total: s.totalQuestions, weight: s.examAttemptId ? SIMULATED_EXAM_WEIGHT : 1, isExam: !!s.examAttemptId };
+      if (s.examAttemptId) examUnits.set(s.examAttemptId, unit);
+      result.push(unit);
+    });
+    return result;
+  }, [history]);
+
   const analytics = useMemo(() => {
-    if (history.length < 3) return null;
+    if (units.length < 3) return null;
 
-    const last10 = history.slice(0, 10);
-    const accuracies = last10.map(s => (s.correctAnswers / s.totalQuestions) * 100);
-    const avgAccuracy = accuracies.reduce((a, b) => a + b, 0) / accuracies.length;
+    const recent = units.slice(0, RECENT_UNITS);
+    const accuracies = recent.map(u => (u.correct / u.total) * 100);
+    const totalWeight = recent.reduce((acc, u) => acc + u.weight, 0);
+    const avgAccuracy = accuracies.reduce((acc, a, i) => acc + a * recent[i].weight, 0) / totalWeight;
     
     // Calculate Standard Deviation for Confidence Interval
-    const squareDiffs = accuracies.map(a => Math.pow(a - avgAccuracy, 2));
-    const stdDev = Math.sqrt(squareDiffs.reduce((a, b) => a + b, 0) / accuracies.length);
+    const squareDiffs = accuracies.map((a, i) => Math.pow(a - avgAccuracy, 2) * recent[i].weight);
+    const stdDev = Math.sqrt(squareDiffs.reduce((a, b) => a + b, 0) / totalWeight);
 
-    // REALISTIC USMLE SCORING ALGORITHM
-    // Step 2 CK: Passing ~214. Mean ~248. SD ~15.
-    // Step 3: Passing ~198. Mean ~228. SD ~15.
-    // A 60% accuracy roughly correlates to passing. 
-    // <40% should be a clear fail.
-    
     const isStep3 = history[0].examTypes.includes(ExamType.STEP_3);
-    
-    // New Baseline: 155 (Step 2), 145 (Step 3). 
-    // Multiplier: 1.15 (Step 2), 1.1 (Step 3).
-    // Examples (Step 2):
-    // 27% -> 155 + 31 = 186 (Fail)
-    // 60% -> 155 + 69 = 224 (Pass)
-    // 80% -> 155 + 92 = 247 (Mean)
-    
-    const baseScore = isStep3 ? 145 : 155;
-    const multiplier = isStep3 ? 1.1 : 1.15;
-    
-    const predictedScore = Math.round(baseScore + (avgAccuracy * multiplier));
+    const predictedScore = predictScaledScore(avgAccuracy, isStep3);
     const marginOfError = Math.round(stdDev * 0.5);
     
-    const passThreshold = isStep3 ? 198 : 214;
     // Probability logic: If score is exactly pass threshold, prob is 50%. 
     // +20 points = 100%, -20 points = 0%.
-    const probabilityPass = Math.min(100, Math.max(0, Math.round(((predictedScore - passThreshold) / 20 + 0.5) * 100)));
+    const probabilityPass = Math.min(100, Math.max(0, Math.round(((predictedScore - passThreshold(isStep3)) / 20 + 0.5) * 100)));
 
     const weakAreas = subtopicData
       .filter(t => t.accuracy < 60)
@@ -57,9 +78,11 @@ export const PredictiveScore: React.FC<PredictiveScoreProps> = ({ history, subto
       probabilityPass,
       weakAreas,
       isStep3,
-      avgAccuracy: Math.round(avgAccuracy)
+      avgAccuracy: Math.round(avgAccuracy),
+      // Only exams inside the recent window are weighted into the estimate
+      simulatedExams: recent.filter(u => u.isExam).length
     };
-  }, [history, subtopicData]);
+  }, [units, history, subtopicData]);
 
   if (!analytics) {
     return (
@@ -70,7 +93,7 @@ export const PredictiveScore: React.FC<PredictiveScoreProps> = ({ history, subto
           </div>
           <div>
             <h3 className="text-xl font-black">Predictive Engine Warming...</h3>
-            <p className="text-slate-400 text-sm">Complete {3 - (history.length)} more sessions to unlock score forecasting.</p>
+            <p className="text-slate-400 text-sm">Complete {Math.max(1, 3 - units.length)} more sessions to unlock score forecasting.</p>
           </div>
         </div>
       </div>
@@ -101,6 +124,12 @@ export const PredictiveScore: React.FC<PredictiveScoreProps> = ({ history, subto
                 <span className="block text-[10px] font-black uppercase opacity-60">Avg. Accuracy</span>
                 <span className="text-sm font-bold">{analytics.avgAccuracy}%</span>
               </div>
+              {analytics.simulatedExams > 0 && (
+                <div className="bg-white/10 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10">
+                  <span className="block text-[10px] font-black uppercase opacity-60">Simulated Exams</span>
+                  <span className="text-sm font-bold">{analytics.simulatedExams} · weighted ×{SIMULATED_EXAM_WEIGHT}</span>
+                </div>
+              )}
             </div>
           </div>
 
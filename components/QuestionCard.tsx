@@ -1,8 +1,14 @@
 
-import React, { useState, useEffect } from 'react';
-import { Question, MasteryCard } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Question, MasteryCard, QuizMode, QuestionAnnotations, Confidence } from '../types';
 import { Button } from './Button';
-import { deepDiveExplanation } from '../services/geminiService';
+import { EMPTY_ANNOTATIONS, HighlightedText, QuestionNote, addHighlight, selectionOffsets } from './Annotations';
+import { LabValuesDrawer } from './LabValuesDrawer';
+import { ShortcutHelp, useKeyboardShortcuts } from './KeyboardShortcuts';
+import { jobQueue } from '../services/jobQueue';
+import { findLabMentions } from '../services/labValues';
+import { OPTION_ACTIONS } from '../services/keyboardShortcuts';
+import { notifyAIError } from '../services/notificationService';
 
 interface QuestionCardProps {
   question: Question;
@@ -18,11 +24,50 @@ interface QuestionCardProps {
   progress: number;
   currentIndex: number;
   totalQuestions: number;
+  pendingCount?: number;
+  isNextPending?: boolean;
   autoReinforce: boolean;
   masteryCards?: MasteryCard[];
   onDissect?: (q: Question) => Promise<void>;
+  mode?: QuizMode;
+  deadline?: number;
+  onSubmitBlock?: () => void;
+  isFlagged?: boolean;
+  onToggleFlag?: () => void;
+  annotations?: QuestionAnnotations;
+  onAnnotate?: (annotations: QuestionAnnotations) => void;
+  onUpdateNote?: (q: Question, note: string) => void;
+  confidence?: Confidence;
+  onRateConfidence?: (confidence: Confidence) => void;
+  onSuspend?: () => void;
 }
 
+const LONG_PRESS_MS = 500;
+
+const CONFIDENCE_OPTIONS: { value: Confidence; label: string; active: string }[] = [
+  { value: 'sure', label: 'Sure', active: 'bg-green-600 border-green-600 text-white' },
+  { value: 'unsure', label: 'Unsure', active: 'bg-amber-500 border-amber-500 text-white' },
+  { value: 'guess', label: 'Guess', active: 'bg-red-500 border-red-500 text-white' }
+];
+
+const BlockCountdown: React.FC<{ deadline: number }> = ({ deadline }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingSec = Math.max(0, Math.ceil((deadline - now) / 1000));
+  const minutes = Math.floor(remainingSec / 60);
+  const seconds = String(remainingSec % 60).padStart(2, '0');
+  return (
+    <span className={`tabular-nums ${remainingSec <= 300 ? 'text-red-500 animate-pulse' : 'text-slate-600 dark:text-slate-300'}`}>
+      {minutes}:{seconds}
+    </span>
+  );
+};
+
 const SimpleMarkdown: React.FC<{ content: string }> = ({ content }) => {
   if (!content) return null;
 
@@ -79,11 +124,27 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
   progress,
   currentIndex,
   totalQuestions,
+  pendingCount = 0,
+  isNextPending,
   autoReinforce,
   masteryCards,
-  onDissect
+  onDissect,
+  mode = 'tutor',
+  deadline,
+  onSubmitBlock,
+  isFlagged,
+  onToggleFlag,
+  annotations = EMPTY_ANNOTATIONS,
+  onAnnotate,
+  onUpdateNote,
+  confidence,
+  onRateConfidence,
+  onSuspend
 }) => {
+  const isTimed = mode === 'timed';
   const isAnswered = selectedAnswer !== null;
+  // Timed blocks keep answers editable and hold the key back until the block is submitted
+  const isRevealed = isAnswered && !isTimed;
   const isCorrect = selectedAnswer === question.correctIndex;
   const [showToast, setShowToast] = useState(false);
   const [interactionReady, setInteractionReady] = useState(false);
@@ -96,6 +157,14 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
   const [narrative, setNarrative] = useState<string | null>(null);
   const [loadingNarrative, setLoadingNarrative] = useState(false);
   const [dissecting, setDissecting] = useState(false);
+  const [labsOpen, setLabsOpen] = useState(false);
+  const [focusedLab, setFocusedLab] = useState<string | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
+  // Strike key pressed and waiting for the option key it applies to
+  const [strikeArmed, setStrikeArmed] = useState(false);
+  const labMentions = useMemo(() => findLabMentions(question.vignette), [question.vignette]);
+  const vignetteRef = useRef<HTMLParagraphElement>(null);
+  const longPress = useRef<{ timer?: ReturnType<typeof setTimeout>; fired: boolean }>({ fired: false });
 
   useEffect(() => {
     // Reset ALL local state when question changes
@@ -110,8 +179,11 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
     setNarrative(null);
     setLoadingNarrative(false);
     setDissecting(false);
+    setFocusedLab(null);
+    setStrikeArmed(false);
 
-    // Increased delay to 1000ms to absolutely prevent phantom touches
+    // For 1000ms after a new item appears, taps and clicks are ignored so a touch meant for the previous screen cannot
+    // answer it; keyboard shortcuts skip this lockout, since a key press cannot be a phantom touch
     const timer = setTimeout(() => setInteractionReady(true), 1000);
     return () => clearTimeout(timer);
   }, [question.id]);
@@ -125,10 +197,49 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
   }, [isBookmarked]);
 
   const handleAnswerClick = (idx: number) => {
-    if (!interactionReady || isAnswered) return;
+    // The click that ends a long press belongs to the strike-through, not to answering
+    if (longPress.current.fired) {
+      longPress.current.fired = false;
+      return;
+    }
+    if (!interactionReady || isRevealed) return;
     onAnswer(idx);
   };
 
+  const toggleStrike = (idx: number) => {
+    if (!onAnnotate) return;
+    const struckOptions = annotations.struckOptions.includes(idx)
+      ? annotations.struckOptions.filter(i => i !== idx)
+      : [...annotations.struckOptions, idx];
+    onAnnotate({ ...annotations, struckOptions });
+  };
+
+  const startLongPress = (idx: number) => {
+    clearTimeout(longPress.current.timer);
+    longPress.current = {
+      fired: false,
+      timer: setTimeout(() => {
+        longPress.current.fired = true;
+        toggleStrike(idx);
+      }, LONG_PRESS_MS)
+    };
+  };
+
+  const cancelLongPress = () => clearTimeout(longPress.current.timer);
+
+  const captureHighlight = () => {
+    if (!onAnnotate || !vignetteRef.current) return;
+    const range = selectionOffsets(vignetteRef.current);
+    if (!range) return;
+    onAnnotate({ ...annotations, highlights: addHighlight(annotations.highlights, range) });
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const removeHighlight = (index: number) => {
+    if (!onAnnotate) return;
+    onAnnotate({ ...annotations, highlights: annotations.highlights.filter((_, i) => i !== index) });
+  };
+
   const nextLayer = (total: number, e: React.MouseEvent) => {
     e.stopPropagation();
     if (activeLayer < total - 1) {
@@ -159,8 +270,10 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
     if (narrative) return;
     setLoadingNarrative(true);
     try {
-      const insight = await deepDiveExplanation(question);
+      const insight = await jobQueue.enqueue<string>('deepDive', 'Deep dive', { question });
       setNarrative(insight);
+    } catch (err) {
+      notifyAIError(err);
     } finally {
       setLoadingNarrative(false);
     }
@@ -178,6 +291,37 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
 
   const currentLayer = masteryCards && masteryCards.length > 0 ? masteryCards[activeLayer] : null;
 
+  const openLabs = (labId: string | null) => {
+    setFocusedLab(labId);
+    setLabsOpen(true);
+  };
+
+  const advance = () => {
+    if (isNextPending) return;
+    if (isTimed) onNext();
+    else if (isRevealed) onNext(userFocus, manualReinforce);
+  };
+
+  useKeyboardShortcuts({
+    ...Object.fromEntries(question.options.map((_, idx) => [OPTION_ACTIONS[idx], () => {
+      if (strikeArmed) {
+        setStrikeArmed(false);
+        toggleStrike(idx);
+      } else if (!isRevealed) {
+        onAnswer(idx);
+      }
+    }])),
+    submit: advance,
+    next: () => isTimed || isRevealed ? advance() : onSkip?.(),
+    prev: () => { if (!isFirst) onPrev?.(); },
+    flag: () => onToggleFlag?.(),
+    strike: () => { if (onAnnotate && !isRevealed) setStrikeArmed(armed => !armed); },
+    bookmark: () => onToggleBookmark?.(),
+    labs: () => openLabs(null),
+    help: () => setHelpOpen(true),
+    ...(isRevealed && currentLayer ? { flip: () => setIsFlipped(flipped => !flipped) } : {})
+  }, !labsOpen && !helpOpen);
+
   // Derived state for Concept Reinforcement visual logic
   const autoReinforceActive = !isCorrect && autoReinforce;
   const isReinforcementActive = manualReinforce || autoReinforceActive;
@@ -192,8 +336,34 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
 
       <div className="space-y-2 px-1">
         <div className="flex justify-between items-end text-[9px] sm:text-[10px] font-black uppercase tracking-widest text-slate-400">
-          <span>Item {currentIndex + 1} / {totalQuestions}</span>
-          <span>{Math.round(progress)}%</span>
+          <span className="flex items-center gap-3">
+            Item {currentIndex + 1} / {totalQuestions}
+            {onSuspend && (
+              <button onClick={onSuspend} className="uppercase tracking-widest text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                Suspend
+              </button>
+            )}
+            <button onClick={() => openLabs(null)} className="uppercase tracking-widest text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+              Lab Values
+            </button>
+            <button onClick={() => setHelpOpen(true)} title="Keyboard shortcuts" className="hidden sm:inline uppercase tracking-widest text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+              Shortcuts
+            </button>
+          </span>
+          <span className="flex items-center gap-2">
+            {isTimed && deadline && (
+              <span className="flex items-center gap-1.5">
+                Time Left <BlockCountdown deadline={deadline} />
+              </span>
+            )}
+            {pendingCount > 0 && (
+              <span className="flex items-center gap-1.5 text-blue-500 dark:text-blue-400">
+                <span className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse" />
+                {pendingCount} Generating
+              </span>
+            )}
+            {Math.round(progress)}%
+          </span>
         </div>
         <div className="h-2 w-full bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
           <div 
@@ -203,6 +373,9 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
         </div>
       </div>
 
+      <LabValuesDrawer isOpen={labsOpen} onClose={() => setLabsOpen(false)} focusLabId={focusedLab} />
+      <ShortcutHelp isOpen={helpOpen} onClose={() => setHelpOpen(false)} contexts={['question', 'cards']} />
+
       {showToast && (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[60] bg-blue-600 text-white px-5 py-2.5 rounded-2xl shadow-xl font-bold flex items-center gap-2 animate-in slide-in-from-top-4 duration-300 text-xs sm:text-sm whitespace-nowrap shadow-blue-500/30">
           <svg className="w-4 h-4 fill-current" viewBox="0 0 24 24"><path d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg>
@@ -213,34 +386,65 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
       <div className="bg-white dark:bg-slate-900 p-5 sm:p-12 rounded-[1.5rem] sm:rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 relative group/card w-full box-border">
         <div className="flex justify-between items-start mb-5 sm:mb-8 gap-3 sm:gap-4 w-full">
           <div className="flex-1 min-w-0 prose prose-slate dark:prose-invert max-w-none">
-            <p className="text-base sm:text-xl leading-relaxed text-slate-800 dark:text-slate-200 font-medium whitespace-pre-wrap break-words overflow-visible">
-              {question.vignette}
+            <p
+              ref={vignetteRef}
+              onMouseUp={captureHighlight}
+              onTouchEnd={captureHighlight}
+              className="text-base sm:text-xl leading-relaxed text-slate-800 dark:text-slate-200 font-medium whitespace-pre-wrap break-words overflow-visible"
+            >
+              <HighlightedText
+                text={question.vignette}
+                highlights={annotations.highlights}
+                onRemove={onAnnotate ? removeHighlight : undefined}
+                labMentions={labMentions}
+                onLabClick={openLabs}
+              />
             </p>
           </div>
-          <button 
-            onClick={onToggleBookmark}
-            className={`p-2 sm:p-3 rounded-xl sm:rounded-2xl transition-all active:scale-90 flex-shrink-0 border-2 ${
-              isBookmarked 
-              ? 'bg-blue-600 border-blue-600 text-white shadow-md shadow-blue-500/30' 
-              : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-400 dark:text-slate-500 hover:text-blue-500 hover:border-blue-300'
-            }`}
-          >
-            <svg className={`w-5 h-5 sm:w-6 sm:h-6 ${isBookmarked ? 'fill-current' : 'fill-none'}`} viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
-            </svg>
-          </button>
+          <div className="flex flex-col gap-2 flex-shrink-0">
+            {onToggleFlag && (
+              <button
+                onClick={onToggleFlag}
+                title={isFlagged ? "Unflag" : "Flag for review"}
+                className={`p-2 sm:p-3 rounded-xl sm:rounded-2xl transition-all active:scale-90 border-2 ${
+                  isFlagged
+                  ? 'bg-amber-500 border-amber-500 text-white shadow-md shadow-amber-500/30'
+                  : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-400 dark:text-slate-500 hover:text-amber-500 hover:border-amber-300'
+                }`}
+              >
+                <svg className={`w-5 h-5 sm:w-6 sm:h-6 ${isFlagged ? 'fill-current' : 'fill-none'}`} viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 21V4m0 0h13l-2.5 4.5L16 13H3" />
+                </svg>
+              </button>
+            )}
+            <button 
+              onClick={onToggleBookmark}
+              className={`p-2 sm:p-3 rounded-xl sm:rounded-2xl transition-all active:scale-90 flex-shrink-0 border-2 ${
+                isBookmarked 
+                ? 'bg-blue-600 border-blue-600 text-white shadow-md shadow-blue-500/30' 
+                : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-400 dark:text-slate-500 hover:text-blue-500 hover:border-blue-300'
+              }`}
+            >
+              <svg className={`w-5 h-5 sm:w-6 sm:h-6 ${isBookmarked ? 'fill-current' : 'fill-none'}`} viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 gap-2.5 sm:gap-3 mb-6 sm:mb-8 w-full">
           {question.options.map((option, idx) => {
             let variant = "default";
-            if (isAnswered) {
+            if (isRevealed) {
               if (idx === question.correctIndex) variant = "correct";
               else if (idx === selectedAnswer) variant = "incorrect";
+            } else if (idx === selectedAnswer) {
+              variant = "selected";
             }
 
             const styles = {
               default: `border-slate-100 dark:border-slate-800 ${interactionReady ? 'hover:border-blue-400 dark:hover:border-blue-700 bg-slate-50/50 dark:bg-slate-800/30' : 'bg-slate-50/50 dark:bg-slate-800/30 cursor-wait'} text-slate-700 dark:text-slate-300`,
+              selected: "border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300 ring-2 ring-blue-500/10",
               correct: "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 ring-2 ring-green-500/10 shadow-lg shadow-green-500/10",
               incorrect: "border-red-500 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 shadow-lg shadow-red-500/10"
             };
@@ -248,25 +452,64 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
             return (
               <button
                 key={idx}
-                disabled={!interactionReady || isAnswered}
+                disabled={!interactionReady || isRevealed}
                 onClick={() => handleAnswerClick(idx)}
-                className={`w-full text-left p-3.5 sm:p-5 rounded-xl sm:rounded-2xl border-2 transition-all flex items-start gap-3 sm:gap-4 group ${styles[variant as keyof typeof styles]} ${!interactionReady && !isAnswered ? 'opacity-80' : ''}`}
+                onContextMenu={(e) => { e.preventDefault(); toggleStrike(idx); }}
+                onTouchStart={() => startLongPress(idx)}
+                onTouchEnd={cancelLongPress}
+                onTouchMove={cancelLongPress}
+                className={`w-full text-left p-3.5 sm:p-5 rounded-xl sm:rounded-2xl border-2 transition-all flex items-start gap-3 sm:gap-4 group ${styles[variant as keyof typeof styles]} ${!interactionReady && !isRevealed ? 'opacity-80' : ''}`}
               >
                 <span className={`w-6 h-6 sm:w-7 sm:h-7 rounded-lg flex-shrink-0 flex items-center justify-center font-black border-2 text-[10px] sm:text-xs ${
-                  isAnswered && idx === question.correctIndex 
+                  isRevealed && idx === question.correctIndex 
                     ? "border-green-600 bg-green-600 text-white" 
-                    : isAnswered && idx === selectedAnswer
+                    : isRevealed && idx === selectedAnswer
                     ? "border-red-600 bg-red-600 text-white"
+                    : idx === selectedAnswer
+                    ? "border-blue-600 bg-blue-600 text-white"
                     : "border-slate-200 dark:border-slate-700 group-hover:border-blue-500 text-slate-400"
                 }`}>
                   {String.fromCharCode(65 + idx)}
                 </span>
-                <span className="flex-1 text-sm sm:text-base font-semibold break-words leading-tight sm:leading-normal">{option}</span>
+                <span className={`flex-1 text-sm sm:text-base font-semibold break-words leading-tight sm:leading-normal ${annotations.struckOptions.includes(idx) ? 'line-through opacity-40' : ''}`}>{option}</span>
               </button>
             );
           })}
         </div>
 
+        {onRateConfidence && (
+          <div className="-mt-3 sm:-mt-5 mb-3 flex flex-wrap items-center gap-2 px-1">
+            <span className="text-[9px] sm:text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Confidence</span>
+            {CONFIDENCE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                // Rating after the key is shown would only measure hindsight
+                disabled={isRevealed}
+                onClick={() => onRateConfidence(option.value)}
+                className={`px-3 py-1 rounded-lg border-2 text-[10px] sm:text-xs font-black uppercase tracking-wider transition-all disabled:cursor-default ${
+                  confidence === option.value ? option.active : 'border-slate-200 dark:border-slate-700 text-slate-400 hover:border-slate-300 dark:hover:border-slate-600 disabled:opacity-40'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {onAnnotate && (
+          <p className={`${onRateConfidence ? '' : '-mt-3 sm:-mt-5'} mb-4 sm:mb-6 px-1 text-[9px] sm:text-[10px] font-black uppercase tracking-widest ${strikeArmed ? 'text-amber-500' : 'text-slate-300 dark:text-slate-600'}`}>
+            {strikeArmed
+              ? 'Press an option key to cross it out'
+              : 'Select text to highlight · Right-click or long-press an option to cross it out'}
+          </p>
+        )}
+
+        {onUpdateNote && (
+          <div className="mb-4 sm:mb-6">
+            <QuestionNote key={question.id} note={question.note} onSave={(note) => onUpdateNote(question, note)} />
+          </div>
+        )}
+
         <div className="flex items-center justify-between gap-2 border-t border-slate-50 dark:border-slate-800 pt-4 mt-2 w-full">
            <div className="flex gap-2 min-w-0">
             {!isFirst && (
@@ -293,10 +536,26 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
                </svg>
              </button>
           )}
+
+          {isTimed && (
+            <div className="flex items-center gap-2">
+              {onSubmitBlock && !isLast && (
+                <button
+                  onClick={onSubmitBlock}
+                  className="px-2 sm:px-4 py-1.5 text-[10px] sm:text-xs font-bold text-slate-400 hover:text-red-600 dark:text-slate-500 dark:hover:text-red-400 transition-colors"
+                >
+                  End Block
+                </button>
+              )}
+              <Button onClick={() => onNext()} variant="primary" isLoading={isNextPending} className="px-6 sm:px-8 py-2.5 text-xs sm:text-sm rounded-xl">
+                {isNextPending ? "Generating..." : isLast ? "Submit Block" : "Next"}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
-      {isAnswered && (
+      {isRevealed && (
         <div className="bg-white dark:bg-slate-900 p-5 sm:p-12 rounded-[1.5rem] sm:rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 animate-in slide-in-from-bottom-8 duration-500 w-full box-border">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 sm:mb-8">
             <div className="flex items-center gap-2.5 sm:gap-4">
@@ -450,8 +709,8 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({
           </div>
 
           <div className="mt-6 sm:mt-8 flex justify-end w-full">
-            <Button onClick={() => onNext(userFocus, manualReinforce)} variant="primary" className="w-full sm:w-auto px-10 py-3.5 sm:py-4 text-sm sm:text-base rounded-2xl shadow-xl shadow-blue-500/20">
-              {isLast ? "Performance" : "Continue"}
+            <Button onClick={() => onNext(userFocus, manualReinforce)} variant="primary" isLoading={isNextPending} className="w-full sm:w-auto px-10 py-3.5 sm:py-4 text-sm sm:text-base rounded-2xl shadow-xl shadow-blue-500/20">
+              {isNextPending ? "Generating Next Vignette..." : isLast ? "Performance" : "Continue"}
             </Button>
           </div>
         </div>
@@ -1,30 +1,60 @@
 
 import React from 'react';
-import { MedicalSpecialty, ExamType, ClinicalComplexity } from '../types';
+import { MedicalSpecialty, ExamType, ClinicalComplexity, QuizMode, LibraryBlockOptions, LibrarySource, QuizSession, ExamAttempt } from '../types';
+import { LibraryIndex, matchLibrary, libraryTags } from '../services/libraryBlocks';
+import { EXAM_BLUEPRINTS, SimulatedExamType, nextBlockNumber } from '../services/examSimulation';
 import { Button } from './Button';
 
+// NBME pacing: a 40-item block runs 60 minutes
+export const TIMED_SECONDS_PER_QUESTION = 90;
+const TIMED_BLOCK_SIZES = [10, 20, 40];
+
+const LIBRARY_SOURCES: [LibrarySource, string][] = [
+  ['incorrect', 'Previously Missed'],
+  ['omitted', 'Previously Omitted'],
+  ['flagged', 'Flagged'],
+  ['unused', 'Unused Since'],
+  ['bookmarked', 'Bookmarked'],
+  ['all', 'Entire Library']
+];
+const LIBRARY_SHARES = [1, 0.75, 0.5, 0.25];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 interface QuizSetupProps {
-  onStart: (specialties: MedicalSpecialty[], examTypes: ExamType[], complexity: ClinicalComplexity, count: number, topics: string, autoReinforce: boolean) => void;
+  onStart: (specialties: MedicalSpecialty[], examTypes: ExamType[], complexity: ClinicalComplexity, count: number, topics: string, autoReinforce: boolean, mode: QuizMode, library?: LibraryBlockOptions) => void;
   isLoading: boolean;
+  libraryIndex: LibraryIndex;
   hasBookmarks?: boolean;
   onReviewBookmarks?: () => void;
   dueSRSCount?: number;
   onStartSRS?: () => void;
-  activeSessionProgress?: { current: number; total: number; skippedCount: number };
-  onResume?: () => void;
-  onDiscardSession?: () => void;
+  activeSession?: QuizSession | null;
+  suspendedBlocks?: QuizSession[];
+  onResumeBlock?: (block: QuizSession) => void;
+  onDiscardBlock?: (block: QuizSession) => void;
+  onStartExam?: (examType: SimulatedExamType, blockCount: number, complexity: ClinicalComplexity) => void;
+  activeExam?: ExamAttempt;
+  onOpenExam?: () => void;
 }
 
+const blockLabel = (block: QuizSession): string =>
+  block.specialties.length > 0 ? block.specialties.join(', ') : block.topics?.trim() || 'Custom Block';
+
 export const QuizSetup: React.FC<QuizSetupProps> = ({ 
   onStart, 
   isLoading, 
+  libraryIndex,
   hasBookmarks, 
   onReviewBookmarks, 
   dueSRSCount = 0, 
   onStartSRS,
-  activeSessionProgress,
-  onResume,
-  onDiscardSession
+  activeSession,
+  suspendedBlocks = [],
+  onResumeBlock,
+  onDiscardBlock,
+  onStartExam,
+  activeExam,
+  onOpenExam
 }) => {
   const [selectedSpecialties, setSelectedSpecialties] = React.useState<MedicalSpecialty[]>([MedicalSpecialty.INTERNAL_MEDICINE]);
   const [selectedExamTypes, setSelectedExamTypes] = React.useState<ExamType[]>([ExamType.STEP_2_CK]);
@@ -32,6 +62,22 @@ export const QuizSetup: React.FC<QuizSetupProps> = ({
   const [count, setCount] = React.useState(5);
   const [topics, setTopics] = React.useState("");
   const [autoReinforce, setAutoReinforce] = React.useState(true);
+  const [mode, setMode] = React.useState<QuizMode>('tutor');
+  const [timedSize, setTimedSize] = React.useState(40);
+  const [fromLibrary, setFromLibrary] = React.useState(false);
+  const [libraryOptions, setLibraryOptions] = React.useState<LibraryBlockOptions>({ source: 'incorrect', share: 1 });
+  const [examType, setExamType] = React.useState<SimulatedExamType>(ExamType.STEP_2_CK);
+  const [fullLength, setFullLength] = React.useState(true);
+  const [unusedSinceDate, setUnusedSinceDate] = React.useState(() => new Date(Date.now() - 30 * DAY_MS).toISOString().slice(0, 10));
+
+  const tags = React.useMemo(() => libraryTags(libraryIndex.library), [libraryIndex.library]);
+  const effectiveLibraryOptions: LibraryBlockOptions = { ...libraryOptions, unusedSince: libraryOptions.source === 'unused' ? new Date(unusedSinceDate).getTime() : undefined };
+  const libraryMatches = React.useMemo(
+    () => fromLibrary ? matchLibrary(effectiveLibraryOptions, libraryIndex).length : 0,
+    [fromLibrary, libraryOptions, unusedSinceDate, libraryIndex]
+  );
+  const libraryOnly = fromLibrary && libraryOptions.share === 1;
+  const updateLibraryOptions = (changes: Partial<LibraryBlockOptions>) => setLibraryOptions(prev => ({ ...prev, ...changes }));
 
   const toggleSpecialty = (s: MedicalSpecialty) => {
     setSelectedSpecialties(prev => 
@@ -49,8 +95,17 @@ export const QuizSetup: React.FC<QuizSetupProps> = ({
     );
   };
 
+  const blueprint = EXAM_BLUEPRINTS[examType];
+  // A half-length form keeps the same blocks and break budget, just fewer of the blocks
+  const examBlockCount = fullLength ? blueprint.blockCount : Math.ceil(blueprint.blockCount / 2);
+
   const handleStart = () => {
-    if (selectedSpecialties.length === 0 && !topics.trim()) {
+    if (fromLibrary && libraryMatches === 0) {
+      alert("No questions in your library match these filters.");
+      return;
+    }
+    // A block drawn entirely from the library generates nothing, so it needs no specialty or topic
+    if (!libraryOnly && selectedSpecialties.length === 0 && !topics.trim()) {
       alert("Please select at least one specialty or provide custom topics.");
       return;
     }
@@ -58,47 +113,66 @@ export const QuizSetup: React.FC<QuizSetupProps> = ({
       alert("Please select at least one exam type.");
       return;
     }
-    onStart(selectedSpecialties, selectedExamTypes, complexity, count, topics, autoReinforce);
+    // Timed blocks defer every explanation, so there is nothing to reinforce mid-block
+    const library = fromLibrary ? effectiveLibraryOptions : undefined;
+    if (mode === 'timed') onStart(selectedSpecialties, selectedExamTypes, complexity, timedSize, topics, false, mode, library);
+    else onStart(selectedSpecialties, selectedExamTypes, complexity, count, topics, autoReinforce, mode, library);
   };
 
   return (
     <div className="max-w-2xl mx-auto space-y-6 pb-12">
-      {activeSessionProgress && onResume && (
-        <div className="bg-blue-600 dark:bg-blue-700 p-8 rounded-[2rem] text-white shadow-2xl flex flex-col sm:flex-row items-center justify-between gap-6 animate-in slide-in-from-top-4 duration-500">
-          <div className="flex items-center gap-5">
-            <div className="w-14 h-14 bg-white/20 rounded-2xl flex items-center justify-center backdrop-blur-md">
-              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      {onResumeBlock && (activeSession || suspendedBlocks.length > 0) && (
+        <div className="bg-blue-600 dark:bg-blue-700 p-6 sm:p-8 rounded-[2rem] text-white shadow-2xl space-y-4 animate-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-white/20 rounded-2xl flex items-center justify-center backdrop-blur-md shrink-0">
+              <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
             </div>
             <div>
-              <p className="text-xl font-black">Active Block Found</p>
-              <p className="text-blue-100/80 text-sm font-medium">
-                Question {activeSessionProgress.current} of {activeSessionProgress.total} in progress.
-                {activeSessionProgress.skippedCount > 0 && (
-                  <span className="block mt-1 bg-white/10 px-2 py-0.5 rounded-lg text-[10px] font-black uppercase tracking-widest inline-block">
-                    {activeSessionProgress.skippedCount} Deferred at End
-                  </span>
-                )}
-              </p>
+              <p className="text-xl font-black">Unfinished Blocks</p>
+              <p className="text-blue-100/80 text-sm font-medium">Pick up exactly where you left off.</p>
             </div>
           </div>
-          <div className="flex items-center gap-3 w-full sm:w-auto">
-            <button 
-              onClick={onDiscardSession}
-              className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-blue-200 hover:text-white transition-colors"
-            >
-              Discard
-            </button>
-            <Button 
-              variant="primary" 
-              className="bg-white text-blue-600 hover:bg-blue-50 flex-1 sm:flex-none py-3 px-8" 
-              onClick={onResume}
-            >
-              Resume Quiz
-            </Button>
-          </div>
+          {[...(activeSession ? [activeSession] : []), ...suspendedBlocks].map((block, idx) => {
+            const answered = block.questions.filter((_, i) => block.userAnswers[i] != null).length;
+            const deferred = block.questions.filter((q, i) => block.skippedIds?.includes(q.id) && block.userAnswers[i] == null).length;
+            return (
+              <div key={block.id || idx} className="bg-white/10 p-4 rounded-2xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-black truncate">{blockLabel(block)}</p>
+                  <p className="text-blue-100/80 text-xs font-medium">
+                    Question {block.currentQuestionIndex + 1} of {block.questions.length + (block.pendingCount || 0)} · {answered} answered · started {new Date(block.startTime).toLocaleDateString()}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5 mt-1.5">
+                    <span className="bg-white/10 px-2 py-0.5 rounded-lg text-[10px] font-black uppercase tracking-widest">{block.mode === 'timed' ? 'Timed' : 'Tutor'}</span>
+                    <span className="bg-white/10 px-2 py-0.5 rounded-lg text-[10px] font-black uppercase tracking-widest">
+                      {block === activeSession ? 'In Progress' : `Suspended ${new Date(block.suspendedAt ?? block.startTime).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`}
+                    </span>
+                    {deferred > 0 && (
+                      <span className="bg-white/10 px-2 py-0.5 rounded-lg text-[10px] font-black uppercase tracking-widest">{deferred} Deferred at End</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() => onDiscardBlock?.(block)}
+                    className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-blue-200 hover:text-white transition-colors"
+                  >
+                    Discard
+                  </button>
+                  <Button
+                    variant="primary"
+                    className="bg-white text-blue-600 hover:bg-blue-50 flex-1 sm:flex-none py-2.5 px-6"
+                    onClick={() => onResumeBlock(block)}
+                  >
+                    Resume
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
 
@@ -139,6 +213,99 @@ export const QuizSetup: React.FC<QuizSetupProps> = ({
         </div>
         
         <div className="space-y-8 mt-6">
+          <div>
+            <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-3 uppercase tracking-wider">Question Source</label>
+            <div className="grid grid-cols-2 gap-4">
+              {([[false, 'Generate New', 'Fresh vignettes from the model'], [true, 'My Library', `${Object.keys(libraryIndex.library).length} questions seen`]] as const).map(([value, label, hint]) => (
+                <button
+                  key={label}
+                  onClick={() => setFromLibrary(value)}
+                  className={`p-4 rounded-2xl border-2 transition-all text-left ${
+                    fromLibrary === value
+                      ? "border-blue-600 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 shadow-sm"
+                      : "border-slate-100 dark:border-slate-800 hover:border-slate-200 dark:hover:border-slate-700 text-slate-600 dark:text-slate-400 bg-slate-50/50 dark:bg-slate-800/50"
+                  }`}
+                >
+                  <span className="block text-sm font-bold">{label}</span>
+                  <span className="block text-[10px] uppercase font-black tracking-widest opacity-60 mt-1">{hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {fromLibrary && (
+            <div className="p-5 bg-slate-50 dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-800 space-y-5">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {LIBRARY_SOURCES.map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => updateLibraryOptions({ source: value })}
+                    className={`px-3 py-3 rounded-xl border text-[11px] font-bold transition-all text-center ${
+                      libraryOptions.source === value
+                        ? "bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-500/20"
+                        : "bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:border-blue-300 dark:hover:border-blue-800"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {libraryOptions.source === 'unused' && (
+                <input
+                  type="date"
+                  value={unusedSinceDate}
+                  max={new Date().toISOString().slice(0, 10)}
+                  onChange={(e) => e.target.value && setUnusedSinceDate(e.target.value)}
+                  className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl outline-none focus:ring-2 focus:ring-blue-500 text-sm dark:text-slate-200"
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={libraryOptions.tag || ''}
+                  onChange={(e) => updateLibraryOptions({ tag: e.target.value || undefined })}
+                  className="p-3 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl outline-none text-xs font-bold text-slate-600 dark:text-slate-300"
+                >
+                  <option value="">Any Tag</option>
+                  {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                </select>
+                <select
+                  value={libraryOptions.specialty || ''}
+                  onChange={(e) => updateLibraryOptions({ specialty: (e.target.value || undefined) as MedicalSpecialty | undefined })}
+                  className="p-3 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl outline-none text-xs font-bold text-slate-600 dark:text-slate-300"
+                >
+                  <option value="">Any Specialty</option>
+                  {Object.values(MedicalSpecialty).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+
+              <div>
+                <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest mb-2">Library / New Mix</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {LIBRARY_SHARES.map(share => (
+                    <button
+                      key={share}
+                      onClick={() => updateLibraryOptions({ share })}
+                      className={`px-2 py-2 rounded-xl border-2 transition-all text-[11px] font-black text-center ${
+                        libraryOptions.share === share
+                          ? "border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-400"
+                          : "border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900"
+                      }`}
+                    >
+                      {share * 100}/{100 - share * 100}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <p className={`text-xs font-bold ${libraryMatches > 0 ? 'text-slate-500 dark:text-slate-400' : 'text-red-500'}`}>
+                {libraryMatches} matching question{libraryMatches === 1 ? '' : 's'}.
+                {libraryOnly ? ' The block is capped at this many; nothing is generated.' : ' Any shortfall in the library share is generated.'}
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-3 uppercase tracking-wider">Exam Target</label>
             <div className="grid grid-cols-2 gap-4">
@@ -206,33 +373,77 @@ export const QuizSetup: React.FC<QuizSetupProps> = ({
             />
           </div>
 
-          <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-800">
-            <div>
-              <p className="text-sm font-bold text-slate-700 dark:text-slate-300">Adaptive Reinforcement</p>
-              <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest">Auto-generate 3 concepts on miss</p>
+          <div>
+            <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-3 uppercase tracking-wider">Block Mode</label>
+            <div className="grid grid-cols-2 gap-4">
+              {([['tutor', 'Tutor', 'Explanation after each answer'], ['timed', 'Timed', 'Exam pacing, review at the end']] as const).map(([value, label, hint]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`p-4 rounded-2xl border-2 transition-all text-left ${
+                    mode === value
+                      ? "border-blue-600 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 shadow-sm"
+                      : "border-slate-100 dark:border-slate-800 hover:border-slate-200 dark:hover:border-slate-700 text-slate-600 dark:text-slate-400 bg-slate-50/50 dark:bg-slate-800/50"
+                  }`}
+                >
+                  <span className="block text-sm font-bold">{label}</span>
+                  <span className="block text-[10px] uppercase font-black tracking-widest opacity-60 mt-1">{hint}</span>
+                </button>
+              ))}
             </div>
-            <button 
-              onClick={() => setAutoReinforce(!autoReinforce)}
-              className={`w-12 h-6 rounded-full transition-colors relative ${autoReinforce ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-700'}`}
-            >
-              <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${autoReinforce ? 'left-7' : 'left-1'}`} />
-            </button>
           </div>
 
-          <div>
-            <div className="flex justify-between items-center mb-4">
-              <label className="text-sm font-bold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Block Depth</label>
-              <span className="text-blue-600 dark:text-blue-400 font-black text-xl">{count}</span>
+          {mode === 'tutor' && (
+            <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-800">
+              <div>
+                <p className="text-sm font-bold text-slate-700 dark:text-slate-300">Adaptive Reinforcement</p>
+                <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest">Auto-generate 3 concepts on miss</p>
+              </div>
+              <button 
+                onClick={() => setAutoReinforce(!autoReinforce)}
+                className={`w-12 h-6 rounded-full transition-colors relative ${autoReinforce ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${autoReinforce ? 'left-7' : 'left-1'}`} />
+              </button>
             </div>
-            <input 
-              type="range" 
-              min="1" 
-              max="20" 
-              value={count}
-              onChange={(e) => setCount(parseInt(e.target.value))}
-              className="w-full h-2 bg-slate-200 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500"
-            />
-          </div>
+          )}
+
+          {mode === 'timed' ? (
+            <div>
+              <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-3 uppercase tracking-wider">Block Length</label>
+              <div className="grid grid-cols-3 gap-2">
+                {TIMED_BLOCK_SIZES.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => setTimedSize(size)}
+                    className={`px-2 py-4 rounded-2xl border-2 transition-all text-center ${
+                      timedSize === size
+                        ? "border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-400"
+                        : "border-slate-100 dark:border-slate-800 hover:border-slate-200 dark:hover:border-slate-700 text-slate-500 dark:text-slate-400 bg-slate-50/50 dark:bg-slate-800/50"
+                    }`}
+                  >
+                    <span className="block text-lg font-black">{size} Qs</span>
+                    <span className="block text-[10px] font-black uppercase tracking-widest opacity-70">{(size * TIMED_SECONDS_PER_QUESTION) / 60} min</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <div className="flex justify-between items-center mb-4">
+                <label className="text-sm font-bold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Block Depth</label>
+                <span className="text-blue-600 dark:text-blue-400 font-black text-xl">{count}</span>
+              </div>
+              <input 
+                type="range" 
+                min="1" 
+                max="20" 
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value))}
+                className="w-full h-2 bg-slate-200 dark:bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500"
+              />
+            </div>
+          )}
 
           <Button 
             variant="primary" 
@@ -240,10 +451,64 @@ export const QuizSetup: React.FC<QuizSetupProps> = ({
             isLoading={isLoading}
             onClick={handleStart}
           >
-            {isLoading ? "Synthesizing Vignettes..." : "Generate Session"}
+            {isLoading ? "Synthesizing Vignettes..." : libraryOnly ? "Start Custom Block" : "Generate Session"}
           </Button>
         </div>
       </div>
+
+      {onStartExam && (
+        <div className="bg-white dark:bg-slate-900 p-8 rounded-3xl shadow-xl shadow-slate-200/50 dark:shadow-none border border-slate-100 dark:border-slate-800 space-y-6">
+          <div>
+            <h2 className="text-2xl font-black text-slate-800 dark:text-slate-100">Simulated Exam</h2>
+            <p className="text-slate-500 dark:text-slate-400 text-sm font-medium">A full test day: timed blocks in the exam's specialty mix, with one break budget between them.</p>
+          </div>
+
+          {activeExam ? (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-indigo-50 dark:bg-indigo-900/20 rounded-2xl border border-indigo-100 dark:border-indigo-800">
+              <div>
+                <p className="text-sm font-black text-indigo-700 dark:text-indigo-300">{activeExam.examType} simulation in progress</p>
+                <p className="text-xs text-indigo-500 dark:text-indigo-400 font-medium">Block {nextBlockNumber(activeExam)} of {activeExam.blockCount} next</p>
+              </div>
+              <Button variant="primary" className="bg-indigo-600 hover:bg-indigo-700" onClick={onOpenExam}>Continue Exam</Button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {(Object.keys(EXAM_BLUEPRINTS) as SimulatedExamType[]).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setExamType(type)}
+                    className={`p-4 rounded-2xl border-2 transition-all text-sm font-bold ${
+                      examType === type
+                        ? "border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-400 shadow-sm"
+                        : "border-slate-100 dark:border-slate-800 hover:border-slate-200 dark:hover:border-slate-700 text-slate-600 dark:text-slate-400 bg-slate-50/50 dark:bg-slate-800/50"
+                    }`}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-800">
+                <div>
+                  <p className="text-sm font-bold text-slate-700 dark:text-slate-300">{fullLength ? 'Full Length' : 'Half Length'}</p>
+                  <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest">
+                    {examBlockCount} blocks × {blueprint.blockSize} · {(blueprint.blockSize * TIMED_SECONDS_PER_QUESTION) / 60} min each · {blueprint.breakMinutes} min break
+                  </p>
+                </div>
+                <button
+                  onClick={() => setFullLength(!fullLength)}
+                  className={`w-12 h-6 rounded-full transition-colors relative ${fullLength ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-700'}`}
+                >
+                  <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${fullLength ? 'left-7' : 'left-1'}`} />
+                </button>
+              </div>
+              <Button variant="secondary" className="w-full py-4 rounded-2xl" disabled={isLoading} onClick={() => onStartExam(examType, examBlockCount, complexity)}>
+                Start Simulated Exam
+              </Button>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { QuizSession, Question } from '../types';
 import { Button } from './Button';
+import { EMPTY_ANNOTATIONS, HighlightedText, QuestionNote } from './Annotations';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 
 interface ResultsViewProps {
@@ -13,6 +14,8 @@ interface ResultsViewProps {
   onExportGuide?: () => void;
   onExportSummary?: () => void;
   isExporting?: boolean;
+  onUpdateNote?: (q: Question, note: string) => void;
+  srsQuestionIds?: string[];
 }
 
 export const ResultsView: React.FC<ResultsViewProps> = ({ 
@@ -23,7 +26,9 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
   onAddToSRS,
   onExportGuide,
   onExportSummary,
-  isExporting
+  isExporting,
+  onUpdateNote,
+  srsQuestionIds = []
 }) => {
   const [filterIncorrect, setFilterIncorrect] = useState(false);
   const [expandedIndices, setExpandedIndices] = useState<number[]>([]);
@@ -39,14 +44,24 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
     ans === session.questions[idx].correctIndex ? acc + 1 : acc, 0
   );
   
+  const isOmitted = (idx: number) => session.userAnswers[idx] == null;
+  const omittedCount = session.questions.filter((_, idx) => isOmitted(idx)).length;
+
   const total = session.questions.length;
   const score = Math.round((correctCount / total) * 100);
 
   const data = [
     { name: 'Correct', value: correctCount, color: '#10B981' },
-    { name: 'Incorrect', value: total - correctCount, color: '#EF4444' }
+    { name: 'Incorrect', value: total - correctCount - omittedCount, color: '#EF4444' },
+    { name: 'Omitted', value: omittedCount, color: '#94A3B8' }
   ];
 
+  // A correct guess is luck, not knowledge, so it goes to spaced repetition alongside the misses
+  const isLuckyGuess = (idx: number) => session.userAnswers[idx] === session.questions[idx].correctIndex && session.confidence?.[session.questions[idx].id] === 'guess';
+  const weakQuestions = session.questions.filter((q, idx) => session.userAnswers[idx] !== q.correctIndex || isLuckyGuess(idx));
+  const luckyGuessCount = session.questions.filter((_, idx) => isLuckyGuess(idx)).length;
+  const unscheduledWeak = weakQuestions.filter(q => !srsQuestionIds.includes(q.id));
+
   const filteredQuestions = session.questions.map((q, idx) => ({ q, idx }))
     .filter(({ idx }) => !filterIncorrect || session.userAnswers[idx] !== session.questions[idx].correctIndex);
 
@@ -60,6 +75,7 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
             <span key={e} className="px-2.5 py-1 bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 rounded-lg text-[9px] sm:text-xs font-black uppercase tracking-wider">{e}</span>
           ))}
           <span className="px-2.5 py-1 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 rounded-lg text-[9px] sm:text-xs font-black uppercase tracking-wider">{session.complexity}</span>
+          <span className="px-2.5 py-1 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg text-[9px] sm:text-xs font-black uppercase tracking-wider">{session.mode === 'timed' ? 'Timed' : 'Tutor'} Mode</span>
         </div>
         
         <div className="flex flex-col md:flex-row items-center justify-around gap-6 sm:gap-12 mb-8 sm:mb-12 w-full">
@@ -88,15 +104,21 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
           </div>
 
           <div className="text-center md:text-left space-y-5 w-full max-w-sm px-1">
-            <div className="grid grid-cols-2 gap-2.5 sm:gap-4 w-full">
+            <div className={`grid ${omittedCount > 0 ? 'grid-cols-3' : 'grid-cols-2'} gap-2.5 sm:gap-4 w-full`}>
               <div className="p-3 sm:p-6 bg-green-50 dark:bg-green-900/10 rounded-xl sm:rounded-2xl border border-green-100 dark:border-green-900/20">
                 <p className="text-[8px] sm:text-[10px] text-green-600 dark:text-green-400 font-black uppercase tracking-widest mb-1">Correct</p>
                 <p className="text-xl sm:text-4xl font-black text-green-700 dark:text-green-300">{correctCount}</p>
               </div>
               <div className="p-3 sm:p-6 bg-red-50 dark:bg-red-900/10 rounded-xl sm:rounded-2xl border border-red-100 dark:border-red-900/20">
                 <p className="text-[8px] sm:text-[10px] text-red-600 dark:text-red-400 font-black uppercase tracking-widest mb-1">Missed</p>
-                <p className="text-xl sm:text-4xl font-black text-red-700 dark:text-red-300">{total - correctCount}</p>
+                <p className="text-xl sm:text-4xl font-black text-red-700 dark:text-red-300">{total - correctCount - omittedCount}</p>
               </div>
+              {omittedCount > 0 && (
+                <div className="p-3 sm:p-6 bg-slate-50 dark:bg-slate-800/50 rounded-xl sm:rounded-2xl border border-slate-100 dark:border-slate-800">
+                  <p className="text-[8px] sm:text-[10px] text-slate-500 dark:text-slate-400 font-black uppercase tracking-widest mb-1">Omitted</p>
+                  <p className="text-xl sm:text-4xl font-black text-slate-600 dark:text-slate-300">{omittedCount}</p>
+                </div>
+              )}
             </div>
             <p className="text-[11px] sm:text-sm text-slate-500 dark:text-slate-400 font-medium italic leading-relaxed mx-auto md:mx-0 max-w-[220px] sm:max-w-none">
               Synthesize learning points or review vignettes below.
@@ -199,9 +221,27 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
         </div>
       </div>
 
+      {onAddToSRS && weakQuestions.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 p-4 sm:p-6 rounded-[1.25rem] sm:rounded-3xl border border-amber-100 dark:border-amber-800 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 w-full">
+          <div>
+            <p className="text-sm sm:text-base font-black text-amber-800 dark:text-amber-200">{weakQuestions.length} Weak Item{weakQuestions.length === 1 ? '' : 's'}</p>
+            <p className="text-[10px] sm:text-xs text-amber-600 dark:text-amber-400 font-medium">
+              Misses{luckyGuessCount > 0 ? ` plus ${luckyGuessCount} lucky guess${luckyGuessCount === 1 ? '' : 'es'}` : ''}. {unscheduledWeak.length === 0 ? 'All are in your retention queue.' : `${unscheduledWeak.length} not yet in your retention queue.`}
+            </p>
+          </div>
+          {unscheduledWeak.length > 0 && (
+            <Button variant="primary" className="bg-amber-600 hover:bg-amber-700 shadow-amber-500/20 w-full sm:w-auto text-xs sm:text-sm" onClick={() => unscheduledWeak.forEach(onAddToSRS)}>
+              Add to Spaced Repetition
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="grid gap-3 sm:gap-4 w-full">
         {filteredQuestions.map(({ q, idx }) => {
           const isCorrect = session.userAnswers[idx] === q.correctIndex;
+          const wasSkipped = session.skippedIds?.includes(q.id);
+          const annotations = session.annotations?.[q.id] || EMPTY_ANNOTATIONS;
           const isExpanded = expandedIndices.includes(idx);
           
           return (
@@ -213,15 +253,20 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
                 onClick={() => toggleExpand(idx)}
               >
                 <div className={`w-8 h-8 sm:w-12 sm:h-12 rounded-lg sm:rounded-2xl flex items-center justify-center font-black text-white flex-shrink-0 shadow-lg text-[10px] sm:text-base ${
-                  isCorrect ? "bg-green-500" : "bg-red-500"
+                  isCorrect ? "bg-green-500" : isOmitted(idx) ? "bg-slate-400" : "bg-red-500"
                 }`}>
                   {idx + 1}
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm sm:text-lg font-semibold text-slate-800 dark:text-slate-200 italic break-words whitespace-pre-wrap">"{q.vignette}"</p>
                   <div className="flex gap-3 sm:gap-4 mt-1">
-                    <span className="text-[8px] sm:text-[10px] font-black text-slate-400 uppercase tracking-tighter">Your: {String.fromCharCode(65 + session.userAnswers[idx])}</span>
+                    <span className="text-[8px] sm:text-[10px] font-black text-slate-400 uppercase tracking-tighter">Your: {session.userAnswers[idx] == null ? '—' : String.fromCharCode(65 + session.userAnswers[idx])}</span>
                     <span className="text-[8px] sm:text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-tighter">Key: {String.fromCharCode(65 + q.correctIndex)}</span>
+                    {isLuckyGuess(idx) && <span className="text-[8px] sm:text-[10px] font-black text-amber-500 uppercase tracking-tighter">Lucky Guess</span>}
+                    {!isLuckyGuess(idx) && session.confidence?.[q.id] && <span className="text-[8px] sm:text-[10px] font-black text-slate-400 uppercase tracking-tighter">{session.confidence[q.id]}</span>}
+                    {wasSkipped && <span className="text-[8px] sm:text-[10px] font-black text-slate-500 uppercase tracking-tighter">{isOmitted(idx) ? 'Skipped · Omitted' : 'Skipped · Returned'}</span>}
+                    {!wasSkipped && isOmitted(idx) && <span className="text-[8px] sm:text-[10px] font-black text-slate-500 uppercase tracking-tighter">Omitted</span>}
+                    {session.flaggedIds?.includes(q.id) && <span className="text-[8px] sm:text-[10px] font-black text-amber-500 uppercase tracking-tighter">Flagged</span>}
                   </div>
                 </div>
                 <svg className={`w-4 h-4 text-slate-300 transition-transform flex-shrink-0 ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -232,7 +277,19 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
               {isExpanded && (
                 <div className="px-4 sm:px-6 pb-5 sm:pb-8 pt-1 sm:pt-2 space-y-3 sm:space-y-6 animate-in slide-in-from-top-2 duration-300 w-full box-border">
                   <div className="p-3 sm:p-5 bg-slate-50 dark:bg-slate-800/50 rounded-lg sm:rounded-2xl border-l-4 border-blue-500 text-[11px] sm:text-sm text-slate-600 dark:text-slate-400 italic leading-relaxed break-words whitespace-pre-wrap">
-                    {q.vignette}
+                    <HighlightedText text={q.vignette} highlights={annotations.highlights} />
+                  </div>
+                  <div className="grid gap-1.5 w-full">
+                    {q.options.map((option, optionIdx) => (
+                      <div key={optionIdx} className={`flex items-start gap-2.5 px-3 py-2 rounded-lg text-[11px] sm:text-sm ${
+                        optionIdx === q.correctIndex ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 font-bold'
+                        : optionIdx === session.userAnswers[idx] ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                        : 'text-slate-600 dark:text-slate-400'
+                      }`}>
+                        <span className="font-black flex-shrink-0">{String.fromCharCode(65 + optionIdx)}.</span>
+                        <span className={`break-words ${annotations.struckOptions.includes(optionIdx) ? 'line-through opacity-50' : ''}`}>{option}</span>
+                      </div>
+                    ))}
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-2.5 sm:gap-4 w-full">
                     <div className="p-3.5 sm:p-5 bg-white dark:bg-slate-900/50 rounded-xl sm:rounded-2xl border border-slate-100 dark:border-slate-800 shadow-inner">
@@ -244,6 +301,7 @@ export const ResultsView: React.FC<ResultsViewProps> = ({
                       <p className="text-[10px] sm:text-xs text-slate-600 dark:text-slate-400 leading-relaxed break-words whitespace-pre-wrap">{q.explanation.correct}</p>
                     </div>
                   </div>
+                  {onUpdateNote && <QuestionNote key={q.id} note={q.note} onSave={(note) => onUpdateNote(q, note)} />}
                 </div>
               )}
             </div>
@@ -2,17 +2,30 @@
 import React, { useState } from 'react';
 import { Question, SRSRating, MasteryCard } from '../types';
 import { Button } from './Button';
+import { HighlightedText, QuestionNote } from './Annotations';
+import { LabValuesDrawer } from './LabValuesDrawer';
+import { ShortcutHelp, useKeyboardShortcuts } from './KeyboardShortcuts';
+import { findLabMentions } from '../services/labValues';
 
 interface SRSReviewProps {
   questions: Array<{ type: 'vignette' | 'mastery', data: Question | MasteryCard }>;
   onRate: (id: string, rating: SRSRating) => void;
   onClose: () => void;
+  onUpdateNote?: (q: Question, note: string) => void;
 }
 
-export const SRSReview: React.FC<SRSReviewProps> = ({ questions, onRate, onClose }) => {
+export const SRSReview: React.FC<SRSReviewProps> = ({ questions, onRate, onClose, onUpdateNote }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [sessionQuestions, setSessionQuestions] = useState(questions);
+  const [labsOpen, setLabsOpen] = useState(false);
+  const [focusedLab, setFocusedLab] = useState<string | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  const openLabs = (labId: string | null) => {
+    setFocusedLab(labId);
+    setLabsOpen(true);
+  };
 
   const handleRate = (rating: SRSRating) => {
     const item = sessionQuestions[currentIndex];
@@ -32,6 +45,21 @@ export const SRSReview: React.FC<SRSReviewProps> = ({ questions, onRate, onClose
     }
   };
 
+  const reveal = () => setShowAnswer(true);
+
+  useKeyboardShortcuts({
+    submit: reveal,
+    flip: reveal,
+    labs: () => openLabs(null),
+    help: () => setHelpOpen(true),
+    ...(showAnswer ? {
+      rateAgain: () => handleRate('again'),
+      rateHard: () => handleRate('hard'),
+      rateGood: () => handleRate('good'),
+      rateEasy: () => handleRate('easy')
+    } : {})
+  }, sessionQuestions.length > 0 && !labsOpen && !helpOpen);
+
   if (sessionQuestions.length === 0) {
     return (
       <div className="max-w-2xl mx-auto py-20 text-center">
@@ -57,9 +85,15 @@ export const SRSReview: React.FC<SRSReviewProps> = ({ questions, onRate, onClose
             Item {currentIndex + 1} / {sessionQuestions.length}
           </span>
         </div>
-        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold transition-colors">Exit Study</button>
+        <div className="flex items-center gap-6">
+          <button onClick={() => openLabs(null)} className="text-slate-400 hover:text-blue-600 font-bold transition-colors">Lab Values</button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold transition-colors">Exit Study</button>
+        </div>
       </div>
 
+      <LabValuesDrawer isOpen={labsOpen} onClose={() => setLabsOpen(false)} focusLabId={focusedLab} />
+      <ShortcutHelp isOpen={helpOpen} onClose={() => setHelpOpen(false)} contexts={['cards', 'review']} />
+
       <div className={`bg-white dark:bg-slate-900 p-8 sm:p-12 rounded-[3rem] shadow-2xl border border-slate-100 dark:border-slate-800 transition-all ${showAnswer ? 'ring-8 ring-blue-500/5' : ''}`}>
         <div className="prose prose-slate dark:prose-invert max-w-none mb-12">
           {current.type === 'mastery' ? (
@@ -70,13 +104,20 @@ export const SRSReview: React.FC<SRSReviewProps> = ({ questions, onRate, onClose
           ) : (
             <div className="space-y-4">
                <span className="text-[10px] font-black text-blue-500 uppercase tracking-widest">Full Vignette Challenge</span>
-               <p className="text-2xl leading-relaxed text-slate-800 dark:text-slate-100 font-medium italic">"{(current.data as Question).vignette}"</p>
+               <p className="text-2xl leading-relaxed text-slate-800 dark:text-slate-100 font-medium italic">
+                 "<HighlightedText
+                   text={(current.data as Question).vignette}
+                   highlights={[]}
+                   labMentions={findLabMentions((current.data as Question).vignette)}
+                   onLabClick={openLabs}
+                 />"
+               </p>
             </div>
           )}
         </div>
 
         {!showAnswer ? (
-          <Button variant="primary" className="w-full py-6 text-xl rounded-3xl" onClick={() => setShowAnswer(true)}>Reveal Solution</Button>
+          <Button variant="primary" className="w-full py-6 text-xl rounded-3xl" onClick={reveal}>Reveal Solution</Button>
         ) : (
           <div className="space-y-8 animate-in zoom-in-95 duration-300">
              <div className="p-10 bg-blue-600 dark:bg-blue-700 rounded-[2.5rem] text-white shadow-2xl">
@@ -86,6 +127,10 @@ export const SRSReview: React.FC<SRSReviewProps> = ({ questions, onRate, onClose
                 </p>
              </div>
 
+             {current.type === 'vignette' && onUpdateNote && (
+               <QuestionNote key={(current.data as Question).id} note={(current.data as Question).note} onSave={(note) => onUpdateNote(current.data as Question, note)} />
+             )}
+
              <div className="pt-10 border-t border-slate-100 dark:border-slate-800">
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                   <button onClick={() => handleRate('again')} className="flex flex-col items-center gap-1 p-5 rounded-2xl bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 hover:scale-105 transition-all">
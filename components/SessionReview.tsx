@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { HistoricalSession, Question } from '../types';
+import { Button } from './Button';
+import { EMPTY_ANNOTATIONS, HighlightedText } from './Annotations';
+import { formatDuration } from './HistoryView';
+import { isMiss } from '../services/historyEdits';
+
+interface SessionReviewProps {
+  session: HistoricalSession;
+  questionLibrary: Record<string, Question>;
+  bookmarkIds: string[];
+  masteryQuestionIds: string[];
+  onToggleBookmark: (q: Question) => void;
+  onDissect: (q: Question) => Promise<void>;
+  onRetest: (questions: Question[]) => void;
+  onClose: () => void;
+}
+
+type ReviewFilter = 'all' | 'incorrect' | 'flagged';
+
+const FILTERS: { value: ReviewFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'incorrect', label: 'Incorrect' },
+  { value: 'flagged', label: 'Flagged' }
+];
+
+const letter = (idx?: number) => idx === undefined ? '—' : String.fromCharCode(65 + idx);
+
+// Read-only replay of a stored block; the questions come from the library, the outcome from the history details
+export const SessionReview: React.FC<SessionReviewProps> = ({
+  session,
+  questionLibrary,
+  bookmarkIds,
+  masteryQuestionIds,
+  onToggleBookmark,
+  onDissect,
+  onRetest,
+  onClose
+}) => {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [dissectingIds, setDissectingIds] = useState<string[]>([]);
+
+  const details = [...(session.details || [])].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  const visible = details.filter(d => filter === 'all' || (filter === 'incorrect' ? isMiss(d) : d.flagged));
+  const missedQuestions = details.filter(isMiss).map(d => questionLibrary[d.questionId]).filter((q): q is Question => !!q);
+  const missingCount = details.filter(d => !questionLibrary[d.questionId]).length;
+
+  const toggleExpand = (id: string) => setExpandedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const handleDissect = async (q: Question) => {
+    setDissectingIds(prev => [...prev, q.id]);
+    try {
+      await onDissect(q);
+    } finally {
+      setDissectingIds(prev => prev.filter(id => id !== q.id));
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-5 pb-20 animate-in fade-in duration-500 w-full">
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-slate-800 dark:text-slate-100">Block Review</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+              {new Date(session.timestamp).toLocaleString()} · {session.mode === 'timed' ? 'Timed' : 'Tutor'} · {session.correctAnswers}/{session.totalQuestions} correct · {formatDuration(session.timeTakenMs)}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-medium mt-1 truncate">{session.specialties.join(', ')}</p>
+          </div>
+          <Button variant="outline" onClick={onClose}>Back</Button>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex gap-2">
+            {FILTERS.map(f => (
+              <button
+                key={f.value}
+                onClick={() => setFilter(f.value)}
+                className={`px-3 py-1.5 rounded-lg border-2 text-[10px] font-black uppercase tracking-widest transition-all ${
+                  filter === f.value ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-blue-400'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <Button variant="primary" className="text-xs px-5" disabled={missedQuestions.length === 0} onClick={() => onRetest(missedQuestions)}>
+            Retest {missedQuestions.length} Miss{missedQuestions.length === 1 ? '' : 'es'}
+          </Button>
+        </div>
+        {missingCount > 0 && (
+          <p className="text-[10px] font-bold text-amber-500 uppercase tracking-widest">{missingCount} item{missingCount === 1 ? ' is' : 's are'} no longer in the question library</p>
+        )}
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-center py-12 text-slate-400 font-black uppercase tracking-widest text-sm">No items match this filter</p>
+      )}
+
+      {visible.map(d => {
+        const q = questionLibrary[d.questionId];
+        const number = (d.position ?? details.indexOf(d)) + 1;
+        if (!q) {
+          return (
+            <div key={d.questionId} className="p-4 rounded-2xl border border-dashed border-slate-200 dark:border-slate-800 text-xs font-bold text-slate-400">
+              Item {number} · Answered {letter(d.selectedIndex)} · {d.isCorrect ? 'Correct' : d.omitted ? 'Omitted' : 'Missed'}
+            </div>
+          );
+        }
+        const annotations = d.annotations || EMPTY_ANNOTATIONS;
+        const isExpanded = expandedIds.includes(q.id);
+        const isBookmarked = bookmarkIds.includes(q.id);
+        const remediated = d.remediationOf ? questionLibrary[d.remediationOf] : undefined;
+
+        return (
+          <div key={q.id} className={`bg-white dark:bg-slate-900 rounded-2xl sm:rounded-3xl border transition-all overflow-hidden ${
+            isExpanded ? 'border-blue-200 dark:border-blue-900 shadow-md' : 'border-slate-100 dark:border-slate-800 shadow-sm hover:border-slate-200'
+          }`}>
+            <div className="p-4 sm:p-6 flex items-center gap-3 sm:gap-5 cursor-pointer" onClick={() => toggleExpand(q.id)}>
+              <div className={`w-9 h-9 sm:w-11 sm:h-11 rounded-xl flex items-center justify-center font-black text-white flex-shrink-0 text-xs sm:text-sm ${
+                d.isCorrect ? 'bg-green-500' : d.omitted ? 'bg-slate-400' : 'bg-red-500'
+              }`}>
+                {number}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm sm:text-base font-semibold text-slate-800 dark:text-slate-200 italic break-words ${isExpanded ? 'whitespace-pre-wrap' : 'truncate'}`}>"{q.vignette}"</p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-[9px] sm:text-[10px] font-black uppercase tracking-tighter">
+                  <span className="text-slate-400">Your: {letter(d.selectedIndex)}</span>
+                  <span className="text-blue-600 dark:text-blue-400">Key: {letter(q.correctIndex)}</span>
+                  {d.timeSpentMs !== undefined && <span className="text-slate-400">{formatDuration(d.timeSpentMs)}</span>}
+                  {d.confidence && <span className="text-slate-400">{d.confidence}</span>}
+                  {d.flagged && <span className="text-amber-500">Flagged</span>}
+                  {d.remediationOf && <span className="text-indigo-500">Remediation</span>}
+                  {isMiss(d) && d.answerChanges?.some(c => c.from === q.correctIndex) && <span className="text-red-500">Changed away from key</span>}
+                </div>
+              </div>
+            </div>
+
+            {isExpanded && (
+              <div className="px-4 sm:px-6 pb-6 space-y-4 animate-in slide-in-from-top-2 duration-300">
+                <div className="p-3 sm:p-5 bg-slate-50 dark:bg-slate-800/50 rounded-xl sm:rounded-2xl border-l-4 border-blue-500 text-xs sm:text-sm text-slate-600 dark:text-slate-300 leading-relaxed break-words whitespace-pre-wrap">
+                  <HighlightedText text={q.vignette} highlights={annotations.highlights} />
+                </div>
+                <div className="grid gap-1.5">
+                  {q.options.map((option, optionIdx) => (
+                    <div key={optionIdx} className={`flex items-start gap-2.5 px-3 py-2 rounded-lg text-xs sm:text-sm ${
+                      optionIdx === q.correctIndex ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 font-bold'
+                      : optionIdx === d.selectedIndex ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                      : 'text-slate-600 dark:text-slate-400'
+                    }`}>
+                      <span className="font-black flex-shrink-0">{letter(optionIdx)}.</span>
+                      <span className={`break-words ${annotations.struckOptions.includes(optionIdx) ? 'line-through opacity-50' : ''}`}>{option}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="p-4 rounded-xl border border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/30">
+                    <h5 className="text-[9px] font-black text-green-600 dark:text-green-400 mb-1.5 uppercase tracking-widest">Correct Path</h5>
+                    <p className="text-xs sm:text-sm text-slate-600 dark:text-slate-400 leading-relaxed break-words whitespace-pre-wrap">{q.explanation.correct}</p>
+                  </div>
+                  <div className="p-4 rounded-xl border border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/30">
+                    <h5 className="text-[9px] font-black text-red-600 dark:text-red-400 mb-1.5 uppercase tracking-widest">Logic Distractor</h5>
+                    <p className="text-xs sm:text-sm text-slate-600 dark:text-slate-400 leading-relaxed break-words whitespace-pre-wrap">{q.explanation.incorrect}</p>
+                  </div>
+                </div>
+                <div className="p-4 bg-gradient-to-br from-blue-600 to-indigo-700 rounded-xl text-white">
+                  <h5 className="text-[9px] font-black uppercase opacity-70 mb-1 tracking-widest">Key Learning Point</h5>
+                  <p className="text-sm font-bold italic break-words">"{q.explanation.keyLearningPoint}"</p>
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {d.firstAnswerMs !== undefined && <span>First answer at {formatDuration(d.firstAnswerMs)}</span>}
+                  {d.answerChanges?.length ? <span>Changed {d.answerChanges.map(c => `${letter(c.from)}→${letter(c.to)}`).join(', ')}</span> : null}
+                  {d.skipped && <span>Skipped once</span>}
+                  {remediated && <span className="normal-case tracking-normal">Remediating: "{remediated.vignette.slice(0, 60)}…"</span>}
+                </div>
+                {q.note && <p className="text-xs text-amber-700 dark:text-amber-300 bg-amber-50/60 dark:bg-amber-900/10 p-3 rounded-xl whitespace-pre-wrap">{q.note}</p>}
+
+                <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-50 dark:border-slate-800">
+                  <Button variant={isBookmarked ? 'primary' : 'outline'} className="text-xs px-4 py-1.5" onClick={() => onToggleBookmark(q)}>
+                    {isBookmarked ? 'Bookmarked' : 'Bookmark'}
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    className="text-xs px-4 py-1.5"
+                    disabled={masteryQuestionIds.includes(q.id)}
+                    isLoading={dissectingIds.includes(q.id)}
+                    onClick={() => handleDissect(q)}
+                  >
+                    {masteryQuestionIds.includes(q.id) ? 'Mastery Cards Ready' : 'Dissect into Mastery Cards'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
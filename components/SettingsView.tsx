@@ -0,0 +1,138 @@
+
+import React, { useState, useEffect } from 'react';
+import { KeyBindings, ProviderSettings } from '../types';
+import { Button } from './Button';
+import { UsagePanel } from './UsagePanel';
+import { ShortcutSettings } from './ShortcutSettings';
+import { PROVIDER_OPTIONS, loadProviderSettings, saveProviderSettings, isProviderConfigured } from '../services/aiService';
+import { getPoolSize, clearPool } from '../services/questionPool';
+import { loadKeyBindings, saveKeyBindings } from '../services/keyboardShortcuts';
+
+interface SettingsViewProps {
+  onClose: () => void;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<ProviderSettings>(() => loadProviderSettings());
+  const [bindings, setBindings] = useState<KeyBindings>(() => loadKeyBindings());
+  const [saved, setSaved] = useState(false);
+  const [poolSize, setPoolSize] = useState(0);
+
+  useEffect(() => { getPoolSize().then(setPoolSize); }, []);
+
+  const update = <K extends keyof ProviderSettings>(key: K, value: ProviderSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setSaved(false);
+  };
+
+  const updateBindings = (next: KeyBindings) => {
+    setBindings(next);
+    setSaved(false);
+  };
+
+  const handleClearPool = async () => {
+    if (!window.confirm("Discard all pre-generated questions?")) return;
+    await clearPool();
+    setPoolSize(0);
+  };
+
+  const handleSave = () => {
+    saveProviderSettings(settings);
+    saveKeyBindings(bindings);
+    setSaved(true);
+  };
+
+  const inputClass = "w-full p-4 bg-slate-50 dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-700 outline-none focus:ring-2 focus:ring-blue-500 transition-all text-sm text-slate-800 dark:text-slate-100 placeholder-slate-400";
+  const labelClass = "block text-xs font-black text-slate-400 uppercase tracking-widest mb-2";
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6 pb-20 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between bg-white dark:bg-slate-900 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-slate-100">Settings</h2>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Question Generation Engine</p>
+        </div>
+        <Button variant="outline" onClick={onClose}>Close</Button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-8 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-8">
+        <div>
+          <label className={labelClass}>Provider</label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {PROVIDER_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => update('providerId', option.id)}
+                className={`p-4 rounded-2xl border-2 transition-all text-left ${
+                  settings.providerId === option.id
+                    ? "border-blue-600 bg-blue-50 dark:bg-blue-900/20 shadow-sm"
+                    : "border-slate-100 dark:border-slate-800 hover:border-slate-200 dark:hover:border-slate-700 bg-slate-50/50 dark:bg-slate-800/50"
+                }`}
+              >
+                <p className={`text-sm font-black ${settings.providerId === option.id ? 'text-blue-700 dark:text-blue-400' : 'text-slate-700 dark:text-slate-300'}`}>{option.label}</p>
+                <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1 leading-snug">{option.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {settings.providerId === 'gemini' && (
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Gemini API Key</label>
+              <input type="password" value={settings.geminiApiKey} onChange={(e) => update('geminiApiKey', e.target.value)} placeholder={process.env.API_KEY ? 'Using key from environment' : 'Paste your API key'} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Model</label>
+              <input type="text" value={settings.geminiModel} onChange={(e) => update('geminiModel', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        )}
+
+        {settings.providerId === 'local' && (
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Base URL</label>
+              <input type="text" value={settings.localBaseUrl} onChange={(e) => update('localBaseUrl', e.target.value)} placeholder="http://localhost:11434/v1" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Model</label>
+              <input type="text" value={settings.localModel} onChange={(e) => update('localModel', e.target.value)} placeholder="llama3.1" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>API Key (optional)</label>
+              <input type="password" value={settings.localApiKey} onChange={(e) => update('localApiKey', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        )}
+
+        {settings.providerId === 'fixture' && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Blocks are filled from a fixed set of sample vignettes. Useful for offline study of the interface and for demos.</p>
+        )}
+
+        <div className="space-y-4 pt-4 border-t border-slate-50 dark:border-slate-800">
+          <div>
+            <label className={labelClass}>Offline Question Pool</label>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-medium mb-3">Unseen questions generated in the background for each specialty, exam and complexity you study, so blocks start instantly and work without a connection. Set to 0 to disable.</p>
+            <input type="number" min={0} max={50} value={settings.poolTargetSize} onChange={(e) => update('poolTargetSize', Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{poolSize} Questions Ready</span>
+            <Button variant="outline" onClick={handleClearPool} disabled={poolSize === 0} className="text-xs">Clear Pool</Button>
+          </div>
+        </div>
+
+        <UsagePanel settings={settings} onUpdate={update} />
+
+        <ShortcutSettings bindings={bindings} onChange={updateBindings} />
+
+        <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-50 dark:border-slate-800">
+          <span className={`text-[10px] font-black uppercase tracking-widest ${isProviderConfigured(settings) ? 'text-green-600 dark:text-green-400' : 'text-amber-500'}`}>
+            {saved ? 'Saved' : isProviderConfigured(settings) ? 'Ready' : 'Incomplete configuration'}
+          </span>
+          <Button onClick={handleSave} className="px-8">Save Settings</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
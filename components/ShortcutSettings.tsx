@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import { KeyBindings, ShortcutAction } from '../types';
+import { DEFAULT_KEY_BINDINGS, SHORTCUTS, conflictingActions, keyLabel, normalizeKey } from '../services/keyboardShortcuts';
+
+interface ShortcutSettingsProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Tab'];
+
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ bindings, onChange }) => {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const conflicts = conflictingActions(bindings);
+
+  useEffect(() => {
+    if (!capturing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (MODIFIER_KEYS.includes(e.key)) return;
+      e.preventDefault();
+      // Capture runs before any screen shortcut, so Escape here only cancels the rebind
+      if (e.key !== 'Escape') onChange({ ...bindings, [capturing]: [normalizeKey(e.key, e.shiftKey)] });
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [capturing, bindings, onChange]);
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-slate-50 dark:border-slate-800">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Keyboard Shortcuts</label>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">Click a key, then press its replacement. Escape cancels. Press ? during a block to see them all.</p>
+        </div>
+        <button onClick={() => onChange(DEFAULT_KEY_BINDINGS)} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest hover:underline shrink-0">Reset</button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1.5">
+        {SHORTCUTS.map(s => (
+          <div key={s.action} className="flex items-center justify-between gap-3 text-xs">
+            <span className={`font-medium ${conflicts.has(s.action) ? 'text-red-500' : 'text-slate-600 dark:text-slate-300'}`}>{s.label}</span>
+            <button
+              onClick={() => setCapturing(capturing === s.action ? null : s.action)}
+              className={`min-w-[4rem] px-2 py-1 rounded-md border text-[10px] font-black transition-all ${
+                capturing === s.action
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 animate-pulse'
+                  : conflicts.has(s.action)
+                  ? 'border-red-300 dark:border-red-900/40 text-red-500'
+                  : 'border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:border-blue-400'
+              }`}
+            >
+              {capturing === s.action ? 'Press a key' : bindings[s.action].map(keyLabel).join(' / ')}
+            </button>
+          </div>
+        ))}
+      </div>
+      {conflicts.size > 0 && (
+        <p className="text-xs font-bold text-red-500">Keys marked red are shared on the same screen; only the first listed action will respond.</p>
+      )}
+    </div>
+  );
+};
@@ -2,7 +2,9 @@
 import React, { useState } from 'react';
 import { StudyPlan, HistoricalSession, Question, StudyWeek } from '../types';
 import { Button } from './Button';
-import { generateStudyPlan } from '../services/geminiService';
+import { generateStudyPlan } from '../services/aiService';
+import { notifyAIError } from '../services/notificationService';
+import { contentNodes } from '../services/tagTaxonomy';
 
 interface StudyPlanViewProps {
   history: HistoricalSession[];
@@ -31,14 +33,11 @@ export const StudyPlanView: React.FC<StudyPlanViewProps> = ({ history, questionL
       const tagStats: Record<string, { correct: number, total: number }> = {};
       history.forEach(session => {
         session.details?.forEach(detail => {
-          const q = questionLibrary[detail.questionId];
-          if (q?.tags) {
-            q.tags.forEach(tag => {
-              if (!tagStats[tag]) tagStats[tag] = { correct: 0, total: 0 };
-              tagStats[tag].total += 1;
-              if (detail.isCorrect) tagStats[tag].correct += 1;
-            });
-          }
+          contentNodes(detail.tags || questionLibrary[detail.questionId]?.tags).forEach(({ label }) => {
+            if (!tagStats[label]) tagStats[label] = { correct: 0, total: 0 };
+            tagStats[label].total += 1;
+            if (detail.isCorrect) tagStats[label].correct += 1;
+          });
         });
       });
 
@@ -61,8 +60,7 @@ export const StudyPlanView: React.FC<StudyPlanViewProps> = ({ history, questionL
       setPlan(generatedPlan);
       localStorage.setItem('abdu_study_plan', JSON.stringify(generatedPlan));
     } catch (err) {
-      console.error(err);
-      alert("Failed to generate plan. Please try again.");
+      notifyAIError(err, { onRetry: handleGenerate });
     } finally {
       setIsLoading(false);
     }
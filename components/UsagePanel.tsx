@@ -0,0 +1,90 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ProviderSettings, UsageFeature, UsageRecord } from '../types';
+import { getUsageLog, summarizeByDay, summarizeByFeature, todaysRecords, totalsOf, formatTokens, USAGE_FEATURE_LABELS } from '../services/usageService';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+
+interface UsagePanelProps {
+  settings: ProviderSettings;
+  onUpdate: <K extends keyof ProviderSettings>(key: K, value: ProviderSettings[K]) => void;
+}
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onUpdate }) => {
+  const [log, setLog] = useState<UsageRecord[]>([]);
+
+  useEffect(() => { getUsageLog().then(setLog); }, []);
+
+  const usage = useMemo(() => {
+    const today = todaysRecords(log);
+    return {
+      today: totalsOf(today),
+      byFeature: summarizeByFeature(today),
+      byDay: summarizeByDay(log),
+      hasEstimates: today.some(r => r.estimated)
+    };
+  }, [log]);
+
+  const dailyPercent = settings.dailyTokenBudget > 0 ? Math.min(100, (usage.today.totalTokens / settings.dailyTokenBudget) * 100) : 0;
+  const inputClass = "w-24 p-2 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-100 dark:border-slate-700 outline-none focus:ring-2 focus:ring-blue-500 text-xs text-right text-slate-800 dark:text-slate-100";
+
+  const setFeatureBudget = (feature: UsageFeature, value: number) => {
+    onUpdate('featureBudgets', { ...settings.featureBudgets, [feature]: value });
+  };
+
+  return (
+    <div className="space-y-6 pt-4 border-t border-slate-50 dark:border-slate-800">
+      <div>
+        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Usage &amp; Budgets</label>
+        <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">Tokens used by each AI call, reset at midnight. Budgets of 0 are unlimited; large blocks and exports ask before going over.</p>
+      </div>
+
+      <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800">
+        <div className="flex items-end justify-between gap-4 mb-3">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Today</p>
+            <p className="text-2xl font-black text-slate-800 dark:text-slate-100">{formatTokens(usage.today.totalTokens)} <span className="text-xs font-bold text-slate-400">tokens · {usage.today.calls} calls</span></p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Daily Budget</span>
+            <input type="number" min={0} step={10000} value={settings.dailyTokenBudget} onChange={(e) => onUpdate('dailyTokenBudget', Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+          </div>
+        </div>
+        {settings.dailyTokenBudget > 0 && (
+          <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className={`h-full transition-all duration-500 ${dailyPercent >= 90 ? 'bg-red-500' : dailyPercent >= 70 ? 'bg-amber-500' : 'bg-green-500'}`} style={{ width: `${dailyPercent}%` }} />
+          </div>
+        )}
+        {usage.hasEstimates && <p className="text-[10px] text-slate-400 mt-2">Some counts are estimated because the provider did not report usage.</p>}
+      </div>
+
+      <div className="w-full h-[160px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={usage.byDay}>
+            <XAxis dataKey="day" tick={{ fill: '#64748b', fontSize: 10, fontWeight: 900 }} axisLine={false} tickLine={false} />
+            <Tooltip formatter={(value) => `${formatTokens(Number(value))} tokens`} contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '12px', color: 'white' }} itemStyle={{ color: '#e2e8f0' }} />
+            {settings.dailyTokenBudget > 0 && <ReferenceLine y={settings.dailyTokenBudget} stroke="#ef4444" strokeDasharray="4 4" />}
+            <Bar dataKey="tokens" name="Tokens" fill="#6366f1" radius={[6, 6, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="space-y-2">
+        {(Object.keys(USAGE_FEATURE_LABELS) as UsageFeature[]).map(feature => {
+          const totals = usage.byFeature[feature];
+          const budget = settings.featureBudgets[feature] || 0;
+          const overBudget = budget > 0 && (totals?.totalTokens || 0) >= budget;
+          return (
+            <div key={feature} className="flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-800">
+              <div className="min-w-0">
+                <p className="text-xs font-bold text-slate-700 dark:text-slate-200">{USAGE_FEATURE_LABELS[feature]}</p>
+                <p className={`text-[10px] font-bold ${overBudget ? 'text-red-500' : 'text-slate-400'}`}>
+                  {totals ? `${formatTokens(totals.totalTokens)} tokens · ${totals.calls} calls · ${(totals.avgLatencyMs / 1000).toFixed(1)}s avg` : 'No usage today'}
+                </p>
+              </div>
+              <input type="number" min={0} step={5000} value={budget} onChange={(e) => setFeatureBudget(feature, Math.max(0, Number(e.target.value) || 0))} className={inputClass} aria-label={`${USAGE_FEATURE_LABELS[feature]} budget`} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+// Every failure from a provider is normalised into one of these so callers can branch on type, not message text
+
+export type AIErrorKind = 'auth' | 'quota' | 'transient' | 'schema' | 'network' | 'request';
+
+export abstract class AIError extends Error {
+  abstract readonly kind: AIErrorKind;
+  // Whether repeating the same request, unchanged, can succeed
+  abstract readonly retryable: boolean;
+
+  constructor(message: string, readonly status?: number, cause?: unknown) {
+    super(message, { cause });
+    this.name = new.target.name;
+  }
+}
+
+// Missing, invalid or unauthorised API key
+export class AuthError extends AIError {
+  readonly kind = 'auth';
+  readonly retryable = false;
+}
+
+// Rate limit or exhausted quota; retryAfterMs comes from the provider's hint when it sends one
+export class QuotaError extends AIError {
+  readonly kind = 'quota';
+  readonly retryable = true;
+
+  constructor(message: string, readonly retryAfterMs?: number, status?: number, cause?: unknown) {
+    super(message, status, cause);
+  }
+}
+
+// Server-side failures (5xx, overloaded model)
+export class TransientError extends AIError {
+  readonly kind = 'transient';
+  readonly retryable = true;
+}
+
+// The model answered, but not with anything we can use
+export class SchemaError extends AIError {
+  readonly kind = 'schema';
+  readonly retryable = false;
+}
+
+// The provider refused the request as sent (invalid argument, unknown model), or it failed in our own code
+export class RequestError extends AIError {
+  readonly kind = 'request';
+  readonly retryable = false;
+}
+
+// Request never reached the provider (offline, DNS, CORS, server not running)
+export class NetworkError extends AIError {
+  readonly kind = 'network';
+  readonly retryable = true;
+}
+
+// Gemini reports RetryInfo as e.g. "retryDelay": "31s"; OpenAI-style servers send a Retry-After header
+const parseRetryAfter = (error: any): number | undefined => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(error?.message || '');
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+// Chrome "Failed to fetch", Node "fetch failed", Firefox "NetworkError when attempting to fetch resource", Safari "Load failed"
+const FETCH_FAILURE = /fetch|network ?error|load failed/i;
+
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  const e = error as any;
+  const status: number | undefined = typeof e?.status === 'number' ? e.status : typeof e?.error?.code === 'number' ? e.error.code : undefined;
+  const message: string = e?.message || e?.error?.message || 'Unknown provider error';
+
+  if (status === 401 || status === 403) return new AuthError(message, status, error);
+  if (status === 429) return new QuotaError(message, parseRetryAfter(e), status, error);
+  if (status !== undefined && status >= 500) return new TransientError(message, status, error);
+  if (status !== undefined && status >= 400) return new RequestError(message, status, error);
+  if (error instanceof SyntaxError) return new SchemaError(`Malformed response from model: ${message}`, undefined, error);
+  // fetch() rejects with a TypeError when the request could not be sent at all; any other TypeError is a bug of ours
+  if ((error instanceof TypeError && FETCH_FAILURE.test(message)) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new NetworkError(message, undefined, error);
+  }
+  // Status-less failures from the SDK's RPC transport
+  if (/RESOURCE_EXHAUSTED/.test(message)) return new QuotaError(message, parseRetryAfter(e), status, error);
+  if (/Rpc failed|xhr error/i.test(message)) return new TransientError(message, status, error);
+  return new RequestError(message, status, error);
+};
@@ -0,0 +1,155 @@
+import { AIProvider, ProviderId, ProviderSettings, RequestOptions, MedicalSpecialty, ExamType, ClinicalComplexity, Question, MasteryCard, StudyPlan } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createLocalProvider } from "./localModelService";
+import { fixtureProvider } from "./fixtureService";
+import { validateQuestions, validateMasteryCards, logRejections } from "./questionValidator";
+import { withContentId, masteryCardContentId } from "./questionIdentity";
+import { shuffleOptions } from "./optionShuffle";
+import { SchemaError } from "./aiErrors";
+
+const SETTINGS_KEY = 'abdu_provider_settings';
+// Extra requests made to replace items the validator could not repair
+const MAX_REFILL_ATTEMPTS = 2;
+// Small first chunk so the first vignette is on screen quickly; the rest follow in larger chunks
+const FIRST_CHUNK_SIZE = 2;
+const CHUNK_SIZE = 5;
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  geminiApiKey: '',
+  geminiModel: 'gemini-3-flash-preview',
+  localBaseUrl: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  localApiKey: '',
+  poolTargetSize: 10,
+  dailyTokenBudget: 0,
+  featureBudgets: {}
+};
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini models. Requires an API key.' },
+  { id: 'local', label: 'Local Model', description: 'Any OpenAI-compatible server, e.g. Ollama or LM Studio.' },
+  { id: 'fixture', label: 'Offline Fixtures', description: 'Canned sample content. No network or key needed.' }
+];
+
+const PROVIDER_FACTORIES: Record<ProviderId, (settings: ProviderSettings, options: RequestOptions) => AIProvider> = {
+  gemini: createGeminiProvider,
+  local: createLocalProvider,
+  fixture: () => fixtureProvider
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isProviderConfigured = (settings: ProviderSettings = loadProviderSettings()): boolean => {
+  switch (settings.providerId) {
+    case 'gemini': return !!(settings.geminiApiKey || process.env.API_KEY);
+    case 'local': return !!(settings.localBaseUrl && settings.localModel);
+    default: return true;
+  }
+};
+
+// Resolved on every call so a provider switch in settings applies immediately
+export const getActiveProvider = (options: RequestOptions = {}): AIProvider => {
+  const settings = loadProviderSettings();
+  return PROVIDER_FACTORIES[settings.providerId](settings, options);
+};
+
+// Validates each batch and re-requests only the shortfall, so callers never see malformed items
+const collectValidQuestions = async (count: number, request: (missing: number) => Promise<unknown>, options: RequestOptions): Promise<Question[]> => {
+  let valid: Question[] = [];
+  for (let attempt = 0; attempt <= MAX_REFILL_ATTEMPTS && valid.length < count; attempt++) {
+    let batch: unknown;
+    try {
+      batch = await request(count - valid.length);
+    } catch (error) {
+      // Keep what already passed validation if a refill request fails, unless the caller cancelled
+      if (valid.length === 0 || options.signal?.aborted) throw error;
+      console.warn(`Refill request failed; continuing with ${valid.length}/${count} questions`, error);
+      break;
+    }
+    const { valid: accepted, rejected } = validateQuestions(batch);
+    logRejections('question', rejected);
+    // Model-supplied ids ("q1") repeat across blocks, so identity is derived from content instead.
+    // Options are then shuffled so the keyed answer does not sit in the model's favourite slot.
+    const prepared = accepted.map(withContentId).map(q => shuffleOptions(q));
+    valid = [...valid, ...prepared.filter(q => !valid.some(v => v.id === q.id))];
+  }
+  if (valid.length === 0) throw new SchemaError("No valid questions in AI response");
+  return valid.slice(0, count);
+};
+
+export const generateQuestions = (
+  specialties: MedicalSpecialty[],
+  examTypes: ExamType[],
+  complexity: ClinicalComplexity,
+  count: number = 5,
+  topics?: string,
+  options: RequestOptions = {}
+): Promise<Question[]> => collectValidQuestions(count, missing =>
+  getActiveProvider(options).generateQuestions(specialties, examTypes, complexity, missing, topics), options);
+
+// Generates a block in chunks, handing each validated chunk to onChunk as soon as it arrives.
+// If a later chunk fails the error is rethrown, but everything already delivered stays delivered.
+export const generateQuestionsIncrementally = async (
+  specialties: MedicalSpecialty[],
+  examTypes: ExamType[],
+  complexity: ClinicalComplexity,
+  count: number,
+  topics: string | undefined,
+  onChunk: (questions: Question[]) => void,
+  options: RequestOptions = {}
+): Promise<Question[]> => {
+  const delivered: Question[] = [];
+  const maxChunks = Math.ceil(count / CHUNK_SIZE) + 2;
+  for (let chunk = 0; chunk < maxChunks && delivered.length < count; chunk++) {
+    options.signal?.throwIfAborted();
+    const size = Math.min(chunk === 0 ? FIRST_CHUNK_SIZE : CHUNK_SIZE, count - delivered.length);
+    const batch = (await generateQuestions(specialties, examTypes, complexity, size, topics, options))
+      .filter(q => !delivered.some(d => d.id === q.id));
+    if (batch.length === 0) continue;
+    delivered.push(...batch);
+    onChunk(batch);
+  }
+  return delivered;
+};
+
+export const generateSimilarQuestions = (
+  failedQuestion: Question,
+  examTypes: ExamType[],
+  complexity: ClinicalComplexity,
+  count: number = 3,
+  userFocus?: string,
+  options: RequestOptions = {}
+): Promise<Question[]> => collectValidQuestions(count, missing =>
+  getActiveProvider(options).generateSimilarQuestions(failedQuestion, examTypes, complexity, missing, userFocus), options);
+
+export const generateMasteryCards = async (question: Question, options: RequestOptions = {}): Promise<MasteryCard[]> => {
+  const { valid, rejected } = validateMasteryCards(await getActiveProvider(options).generateMasteryCards(question), question.id);
+  logRejections('mastery card', rejected);
+  if (valid.length === 0) throw new SchemaError("No valid mastery cards in AI response");
+  return valid.map(card => ({ ...card, id: masteryCardContentId(question.id, card) }));
+};
+
+export const deepDiveExplanation = (question: Question, options: RequestOptions = {}): Promise<string> =>
+  getActiveProvider(options).deepDiveExplanation(question);
+
+export const generateStudyPlan = (
+  performanceSummary: string,
+  examDate: string,
+  dailyHours: number,
+  targetExam: string,
+  options: RequestOptions = {}
+): Promise<StudyPlan> => getActiveProvider(options).generateStudyPlan(performanceSummary, examDate, dailyHours, targetExam);
+
+export const generateSessionSummary = (questions: Question[], options: RequestOptions = {}): Promise<string> =>
+  getActiveProvider(options).generateSessionSummary(questions);
+
+export const generateStudyGuide = (questions: Question[], options: RequestOptions = {}): Promise<string> =>
+  getActiveProvider(options).generateStudyGuide(questions);
@@ -1,5 +1,6 @@
 
-import { HistoricalSession, Question, MasteryCard, SRSState, StudyPlan, LifetimeStats } from '../types';
+import { HistoricalSession, Question, MasteryCard, SRSState, StudyPlan, LifetimeStats, ExamAttempt } from '../types';
+import { runMigrations, CURRENT_SCHEMA_VERSION } from './migrations';
 
 const DB_NAME = 'AbduGoatDB';
 const DB_VERSION = 2;
@@ -12,8 +13,17 @@ export interface AppData {
   questionLibrary: Record<string, Question>;
   studyPlan: StudyPlan | null;
   lifetimeStats: LifetimeStats;
+  examAttempts: ExamAttempt[];
+  schemaVersion?: number;
 }
 
+interface HistoryChange {
+  added: HistoricalSession[];
+  removed: HistoricalSession[];
+}
+
+const countsTowardStats = (session: HistoricalSession) => !session.excludedFromAnalytics;
+
 class DatabaseService {
   private db: IDBDatabase | null = null;
 
@@ -66,36 +76,62 @@ class DatabaseService {
     const history = await this.loadHistory();
     const updatedHistory = [session, ...history];
     await this.set('history', updatedHistory);
-    return await this.updateAnalytics(updatedHistory);
+    return await this.updateAnalytics(updatedHistory, { added: [session], removed: [] });
   }
 
   async loadHistory(): Promise<HistoricalSession[]> {
     return await this.get<HistoricalSession[]>('history') || [];
   }
 
-  async updateAnalytics(historyOverride?: HistoricalSession[]): Promise<LifetimeStats> {
-    const history = historyOverride || await this.loadHistory();
-    
-    if (history.length === 0) {
-      const empty: LifetimeStats = { totalQuestions: 0, totalCorrect: 0, totalHours: 0, avgAccuracy: 0, firstSessionDate: Date.now() };
+  // Removes the sessions with the given ids and inserts the given ones; an edit is a remove plus an add of the same id
+  async replaceSessions(removeIds: string[], add: HistoricalSession[] = []): Promise<{ history: HistoricalSession[]; lifetimeStats: LifetimeStats }> {
+    const history = await this.loadHistory();
+    const removed = history.filter(s => removeIds.includes(s.id));
+    const updatedHistory = [...history.filter(s => !removeIds.includes(s.id)), ...add].sort((a, b) => b.timestamp - a.timestamp);
+    await this.set('history', updatedHistory);
+    const lifetimeStats = await this.updateAnalytics(updatedHistory, { added: add, removed });
+    return { history: updatedHistory, lifetimeStats };
+  }
+
+  // With a change and stored stats to apply it to, only the changed sessions are counted; otherwise the whole history is
+  async updateAnalytics(historyOverride?: HistoricalSession[], change?: HistoryChange): Promise<LifetimeStats> {
+    const history = (historyOverride || await this.loadHistory()).filter(countsTowardStats);
+    const stored = change && await this.get<LifetimeStats>('lifetimeStats');
+    // Stats saved before totalTimeMs existed, or empty ones whose firstSessionDate is a placeholder, are rebuilt in full
+    const previous = stored && stored.totalTimeMs !== undefined && stored.totalQuestions > 0 ? stored : null;
+
+    let totalQuestions: number, totalCorrect: number, totalTimeMs: number;
+    if (previous) {
+      const added = change!.added.filter(countsTowardStats);
+      const removed = change!.removed.filter(countsTowardStats);
+      const sum = (sessions: HistoricalSession[], pick: (s: HistoricalSession) => number) => sessions.reduce((acc, s) => acc + pick(s), 0);
+      totalQuestions = previous.totalQuestions + sum(added, s => s.totalQuestions) - sum(removed, s => s.totalQuestions);
+      totalCorrect = previous.totalCorrect + sum(added, s => s.correctAnswers) - sum(removed, s => s.correctAnswers);
+      totalTimeMs = previous.totalTimeMs! + sum(added, s => s.timeTakenMs) - sum(removed, s => s.timeTakenMs);
+    } else {
+      totalQuestions = history.reduce((acc, s) => acc + s.totalQuestions, 0);
+      totalCorrect = history.reduce((acc, s) => acc + s.correctAnswers, 0);
+      totalTimeMs = history.reduce((acc, s) => acc + s.timeTakenMs, 0);
+    }
+
+    if (history.length === 0 || totalQuestions <= 0) {
+      const empty: LifetimeStats = { totalQuestions: 0, totalCorrect: 0, totalHours: 0, avgAccuracy: 0, firstSessionDate: Date.now(), totalTimeMs: 0 };
       await this.set('lifetimeStats', empty);
       return empty;
     }
 
-    const totalQuestions = history.reduce((acc, s) => acc + s.totalQuestions, 0);
-    const totalCorrect = history.reduce((acc, s) => acc + s.correctAnswers, 0);
-    const totalTimeMs = history.reduce((acc, s) => acc + s.timeTakenMs, 0);
-    
-    // Sort chronologically to find first session date
-    const sortedHistory = [...history].sort((a, b) => a.timestamp - b.timestamp);
-    const firstSessionDate = sortedHistory[0].timestamp;
+    // The earliest session only changes when it was removed, so the scan is skipped for ordinary saves
+    const firstSessionDate = previous && !change!.removed.some(s => s.timestamp <= previous.firstSessionDate)
+      ? Math.min(previous.firstSessionDate, ...change!.added.filter(countsTowardStats).map(s => s.timestamp))
+      : Math.min(...history.map(s => s.timestamp));
 
     const stats: LifetimeStats = {
       totalQuestions,
       totalCorrect,
       totalHours: Number((totalTimeMs / 3600000).toFixed(1)),
       avgAccuracy: Math.round((totalCorrect / totalQuestions) * 100),
-      firstSessionDate
+      firstSessionDate,
+      totalTimeMs
     };
 
     await this.set('lifetimeStats', stats);
@@ -123,6 +159,9 @@ class DatabaseService {
       await this.set('srsStates', data.srsStates || {});
       await this.set('questionLibrary', data.questionLibrary || {});
       await this.set('studyPlan', data.studyPlan || null);
+      await this.set('examAttempts', data.examAttempts || []);
+      // Older backups predate the stored version, so their data is migrated on next load
+      await this.set('schemaVersion', data.schemaVersion || 0);
       
       // Recalculate stats to ensure consistency
       await this.updateAnalytics(data.history);
@@ -142,7 +181,13 @@ class DatabaseService {
     const srsStates = await this.get<Record<string, SRSState>>('srsStates') || {};
     const questionLibrary = await this.get<Record<string, Question>>('questionLibrary') || {};
     const studyPlan = await this.get<StudyPlan>('studyPlan') || null;
+    const examAttempts = await this.get<ExamAttempt[]>('examAttempts') || [];
     let lifetimeStats = await this.get<LifetimeStats>('lifetimeStats');
+    const schemaVersion = await this.get<number>('schemaVersion') || 0;
+
+    if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+      return this.migrate({ history, bookmarks, masteryCards, srsStates, questionLibrary, studyPlan, lifetimeStats: lifetimeStats!, examAttempts, schemaVersion }, schemaVersion);
+    }
 
     // Auto-migration: Calculate lifetime stats if missing but history exists
     if (!lifetimeStats) {
@@ -154,7 +199,19 @@ class DatabaseService {
       }
     }
 
-    return { history, bookmarks, masteryCards, srsStates, questionLibrary, studyPlan, lifetimeStats };
+    return { history, bookmarks, masteryCards, srsStates, questionLibrary, studyPlan, lifetimeStats, examAttempts, schemaVersion };
+  }
+
+  private async migrate(data: AppData, fromVersion: number): Promise<AppData> {
+    const migrated = runMigrations(data, fromVersion);
+    await this.set('history', migrated.history);
+    await this.set('bookmarks', migrated.bookmarks);
+    await this.set('masteryCards', migrated.masteryCards);
+    await this.set('srsStates', migrated.srsStates);
+    await this.set('questionLibrary', migrated.questionLibrary);
+    await this.set('schemaVersion', CURRENT_SCHEMA_VERSION);
+    // Re-enter so lifetime stats are derived from the migrated history
+    return this.getAllData();
   }
 }
 
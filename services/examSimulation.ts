@@ -0,0 +1,95 @@
+import { ClinicalComplexity, ExamAttempt, ExamItem, ExamType, MedicalSpecialty } from "../types";
+
+export type SimulatedExamType = ExamType.STEP_2_CK | ExamType.STEP_3;
+
+interface ExamBlueprint {
+  blockCount: number;
+  blockSize: number;
+  breakMinutes: number;
+  // Relative weights; each block is allocated from these
+  mix: Partial<Record<MedicalSpecialty, number>>;
+}
+
+// Discipline shares approximate the published content outlines, folded onto the specialties this app generates
+export const EXAM_BLUEPRINTS: Record<SimulatedExamType, ExamBlueprint> = {
+  [ExamType.STEP_2_CK]: {
+    blockCount: 8,
+    blockSize: 40,
+    breakMinutes: 45,
+    mix: {
+      [MedicalSpecialty.INTERNAL_MEDICINE]: 45,
+      [MedicalSpecialty.SURGERY]: 18,
+      [MedicalSpecialty.PEDIATRICS]: 14,
+      [MedicalSpecialty.OB_GYN]: 10,
+      [MedicalSpecialty.PSYCHIATRY]: 8,
+      [MedicalSpecialty.ETHICS]: 5
+    }
+  },
+  // Day 1 (Foundations of Independent Practice); the case simulations of day 2 are not modelled
+  [ExamType.STEP_3]: {
+    blockCount: 6,
+    blockSize: 38,
+    breakMinutes: 45,
+    mix: {
+      [MedicalSpecialty.INTERNAL_MEDICINE]: 35,
+      [MedicalSpecialty.FAMILY_MEDICINE]: 10,
+      [MedicalSpecialty.EMERGENCY_MEDICINE]: 10,
+      [MedicalSpecialty.PEDIATRICS]: 10,
+      [MedicalSpecialty.OB_GYN]: 10,
+      [MedicalSpecialty.ETHICS]: 10,
+      [MedicalSpecialty.PSYCHIATRY]: 8,
+      [MedicalSpecialty.SURGERY]: 7
+    }
+  }
+};
+
+// Largest-remainder rounding, so the counts always add up to the block size
+export const allocateMix = (weights: Partial<Record<MedicalSpecialty, number>>, size: number): Partial<Record<MedicalSpecialty, number>> => {
+  const entries = Object.entries(weights) as [MedicalSpecialty, number][];
+  const total = entries.reduce((acc, [, w]) => acc + w, 0);
+  const exact = entries.map(([specialty, w]) => ({ specialty, exact: (w / total) * size }));
+  const counts = exact.map(e => ({ ...e, count: Math.floor(e.exact) }));
+  let leftover = size - counts.reduce((acc, c) => acc + c.count, 0);
+  [...counts].sort((a, b) => (b.exact - b.count) - (a.exact - a.count)).forEach(c => {
+    if (leftover-- > 0) c.count += 1;
+  });
+  return Object.fromEntries(counts.filter(c => c.count > 0).map(c => [c.specialty, c.count]));
+};
+
+export const createExamAttempt = (examType: SimulatedExamType, blockCount: number, complexity: ClinicalComplexity, now = Date.now()): ExamAttempt => {
+  const blueprint = EXAM_BLUEPRINTS[examType];
+  return {
+    id: crypto.randomUUID(),
+    examType,
+    complexity,
+    blockCount,
+    blockSize: blueprint.blockSize,
+    blockMix: allocateMix(blueprint.mix, blueprint.blockSize),
+    prepared: [],
+    preparedFor: 1,
+    breakBudgetMs: blueprint.breakMinutes * 60000,
+    breakUsedMs: 0,
+    blockSessionIds: [],
+    startedAt: now
+  };
+};
+
+export const nextBlockNumber = (attempt: ExamAttempt): number => attempt.blockSessionIds.length + 1;
+
+export const breakUsedMs = (attempt: ExamAttempt, now = Date.now()): number =>
+  attempt.breakUsedMs + (attempt.breakStartedAt !== undefined ? Math.max(0, now - attempt.breakStartedAt) : 0);
+
+export const endBreak = (attempt: ExamAttempt, now = Date.now()): ExamAttempt =>
+  attempt.breakStartedAt === undefined ? attempt : { ...attempt, breakUsedMs: breakUsedMs(attempt, now), breakStartedAt: undefined };
+
+// Items from different specialties are interleaved, as on the real exam
+export const shuffleItems = (items: ExamItem[]): ExamItem[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const examPrepJobId = (attemptId: string, blockNumber: number) => `exam-${attemptId}-${blockNumber}`;
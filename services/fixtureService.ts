@@ -0,0 +1,138 @@
+import { AIProvider, Question, MasteryCard, StudyPlan } from "../types";
+
+// Canned, deterministic content so the app can be exercised offline and without an API key
+const FIXTURE_QUESTIONS: Question[] = [
+  {
+    id: 'fixture-1',
+    vignette: 'A 58-year-old man presents with 2 hours of crushing substernal chest pain radiating to the left arm. He is diaphoretic. Blood pressure is 142/88 mm Hg and pulse is 96/min. ECG shows 3-mm ST-segment elevation in leads II, III and aVF. The nearest PCI-capable hospital is 30 minutes away. Which of the following is the most appropriate next step in management?',
+    options: ['Aspirin and transfer for primary PCI', 'Intravenous alteplase', 'CT angiography of the chest', 'Serial troponins and observation', 'Exercise stress testing'],
+    correctIndex: 0,
+    explanation: {
+      correct: 'Inferior STEMI with a PCI-capable center reachable within 120 minutes of first medical contact should be managed with aspirin and primary PCI.',
+      incorrect: 'Fibrinolysis is reserved for when PCI cannot be achieved in time. Imaging, observation and stress testing delay reperfusion in an evolving STEMI.',
+      keyLearningPoint: 'STEMI: primary PCI if door-to-balloon within 120 minutes; otherwise fibrinolysis within 30 minutes.'
+    },
+    tags: ['Cardiovascular System', 'Medicine', 'Clinical Interventions']
+  },
+  {
+    id: 'fixture-2',
+    vignette: 'A 24-year-old woman has had polyuria, polydipsia and abdominal pain for 2 days. She is tachypneic with a fruity odor to her breath. Glucose is 520 mg/dL, bicarbonate 10 mEq/L, and anion gap 24. Potassium is 3.1 mEq/L. Which of the following is the most appropriate next step in management?',
+    options: ['Intravenous insulin infusion', 'Potassium repletion before insulin', 'Intravenous sodium bicarbonate', 'Subcutaneous insulin glargine', 'Oral metformin'],
+    correctIndex: 1,
+    explanation: {
+      correct: 'In DKA, insulin drives potassium into cells. With serum potassium below 3.3 mEq/L, potassium must be repleted before insulin is started to avoid life-threatening hypokalemia.',
+      incorrect: 'Insulin is delayed until potassium is at least 3.3 mEq/L. Bicarbonate is only considered for pH below 6.9. Basal subcutaneous insulin and metformin have no role in acute DKA.',
+      keyLearningPoint: 'DKA: fluids first, hold insulin until K+ is at least 3.3 mEq/L.'
+    },
+    tags: ['Endocrine System', 'Medicine', 'Pharmacotherapy']
+  },
+  {
+    id: 'fixture-3',
+    vignette: 'A 6-year-old boy has had fever, a sandpaper-like rash and a strawberry tongue for 2 days. Rapid antigen testing of a pharyngeal swab is positive. He has no drug allergies. Which of the following is the most appropriate treatment?',
+    options: ['Azithromycin', 'Oral amoxicillin', 'Intravenous immunoglobulin', 'Supportive care only', 'Oral clindamycin'],
+    correctIndex: 1,
+    explanation: {
+      correct: 'Scarlet fever is caused by group A Streptococcus and is treated with penicillin or amoxicillin to prevent rheumatic fever.',
+      incorrect: 'Macrolides and clindamycin are for penicillin-allergic patients. IVIG treats Kawasaki disease. Withholding antibiotics risks rheumatic fever.',
+      keyLearningPoint: 'Group A strep pharyngitis or scarlet fever: amoxicillin to prevent rheumatic fever.'
+    },
+    tags: ['Respiratory System', 'Microbiology', 'Pediatrics', 'Pharmacotherapy']
+  },
+  {
+    id: 'fixture-4',
+    vignette: 'A 32-year-old woman at 34 weeks of gestation has a blood pressure of 168/112 mm Hg on two readings, a headache and right upper quadrant pain. Urinalysis shows 3+ protein. Platelet count is 88,000/mm3. Which of the following is the most appropriate next step in management?',
+    options: ['Expectant management until 37 weeks', 'Magnesium sulfate, antihypertensives and delivery', 'Oral labetalol and outpatient follow-up', 'Betamethasone and repeat labs in 1 week', 'Immediate platelet transfusion'],
+    correctIndex: 1,
+    explanation: {
+      correct: 'Preeclampsia with severe features at or beyond 34 weeks requires seizure prophylaxis with magnesium, blood pressure control and delivery.',
+      incorrect: 'Expectant or outpatient management is unsafe with severe features. Steroids do not justify delay after 34 weeks. Platelets above 50,000/mm3 do not need transfusion.',
+      keyLearningPoint: 'Preeclampsia with severe features at 34 weeks or later: magnesium, antihypertensives, deliver.'
+    },
+    tags: ['Pregnancy, Childbirth & Puerperium', 'Obstetrics & Gynecology', 'Management']
+  },
+  {
+    id: 'fixture-5',
+    vignette: 'A 45-year-old man is brought in after a motor vehicle collision. He is confused, with blood pressure 78/40 mm Hg and pulse 132/min. Breath sounds are equal. FAST examination shows free fluid in the Morison pouch. Two large-bore IV lines are in place. Which of the following is the most appropriate next step in management?',
+    options: ['CT scan of the abdomen and pelvis', 'Exploratory laparotomy', 'Diagnostic peritoneal lavage', 'Serial abdominal examinations', 'Angiographic embolization'],
+    correctIndex: 1,
+    explanation: {
+      correct: 'A hemodynamically unstable trauma patient with a positive FAST requires immediate exploratory laparotomy.',
+      incorrect: 'CT and angiography are for stable patients. DPL is redundant after a positive FAST. Serial examinations are inappropriate in shock.',
+      keyLearningPoint: 'Unstable blunt abdominal trauma with positive FAST: go straight to laparotomy.'
+    },
+    tags: ['Multisystem Processes & Disorders', 'Surgery', 'Clinical Interventions']
+  },
+  {
+    id: 'fixture-6',
+    vignette: 'A 27-year-old man started haloperidol 3 days ago. He now has a temperature of 40.1 C (104.2 F), generalized lead-pipe rigidity, fluctuating blood pressure and confusion. Creatine kinase is 12,000 U/L. In addition to stopping haloperidol, which of the following is the most appropriate treatment?',
+    options: ['Cyproheptadine', 'Dantrolene', 'Benztropine', 'Lorazepam only', 'Physostigmine'],
+    correctIndex: 1,
+    explanation: {
+      correct: 'Neuroleptic malignant syndrome with severe hyperthermia and rigidity is treated with supportive care plus dantrolene or bromocriptine.',
+      incorrect: 'Cyproheptadine treats serotonin syndrome. Benztropine treats acute dystonia. Benzodiazepines alone are insufficient in severe cases. Physostigmine reverses anticholinergic toxicity.',
+      keyLearningPoint: 'NMS: stop the antipsychotic, cool, and give dantrolene or bromocriptine.'
+    },
+    tags: ['Behavioral Health', 'Pharmacology', 'Diagnosis']
+  }
+];
+
+const buildFixtureQuestions = (count: number, prefix: string, extraTags: string[]): Question[] =>
+  Array.from({ length: count }, (_, i) => {
+    const base = FIXTURE_QUESTIONS[i % FIXTURE_QUESTIONS.length];
+    const variant = Math.floor(i / FIXTURE_QUESTIONS.length);
+    // Repeats get a variant marker so validation does not discard them as duplicates
+    const vignette = variant === 0 ? base.vignette : `${base.vignette} (Variant ${variant + 1})`;
+    return { ...base, id: `${prefix}-${i + 1}`, vignette, tags: [...(base.tags || []), ...extraTags] };
+  });
+
+export const fixtureProvider: AIProvider = {
+  id: 'fixture',
+  label: 'Offline Fixtures',
+
+  generateQuestions: async (specialties, examTypes, complexity, count = 5) =>
+    buildFixtureQuestions(count, 'fixture', []),
+
+  generateSimilarQuestions: async (failedQuestion, examTypes, complexity, count = 3) =>
+    buildFixtureQuestions(count, `fixture-remediation-${failedQuestion.id}`, ["Remediation"]),
+
+  generateMasteryCards: async (question): Promise<MasteryCard[]> => [
+    { id: `${question.id}-patho`, parentId: question.id, type: 'Pathophysiology', front: 'What is the underlying mechanism?', back: question.explanation.correct },
+    { id: `${question.id}-dx`, parentId: question.id, type: 'Diagnosis', front: 'Which findings clinch the diagnosis?', back: question.vignette.split('. ').slice(0, 2).join('. ') },
+    { id: `${question.id}-mgmt`, parentId: question.id, type: 'Management', front: 'What is the next best step?', back: question.options[question.correctIndex] },
+    { id: `${question.id}-diff`, parentId: question.id, type: 'Differentiator', front: 'Why are the distractors wrong?', back: question.explanation.incorrect }
+  ],
+
+  deepDiveExplanation: async (question) =>
+    `## Why ${question.options[question.correctIndex]}\n${question.explanation.correct}\n\n## Distractors\n${question.explanation.incorrect}\n\n* **Pearl:** ${question.explanation.keyLearningPoint}`,
+
+  generateStudyPlan: async (performanceSummary, examDate, dailyHours): Promise<StudyPlan> => ({
+    week1: {
+      topics: ['Cardiology', 'Endocrinology'],
+      hours: dailyHours * 7,
+      resources: ['First Aid Step 2 - Cardiology chapter', 'UWorld Endocrinology block'],
+      focusDescription: `Fixture plan targeting ${examDate || 'your exam date'}: shore up the weakest systems first.`
+    },
+    week2: {
+      topics: ['Obstetrics', 'Trauma'],
+      hours: dailyHours * 7,
+      resources: ['OnlineMedEd OB/GYN videos', 'UWorld Surgery block'],
+      focusDescription: 'Mixed timed blocks with full review of every missed item.'
+    }
+  }),
+
+  generateSessionSummary: async (questions) =>
+    ['=== HIGH-YIELD NOTES ===', '', ...questions.map((q, i) => `* CASE ${i + 1}: ${q.explanation.keyLearningPoint}`)].join('\n'),
+
+  generateStudyGuide: async (questions) =>
+    questions.map((q, i) => [
+      '================================================================================',
+      `[QUESTION ${i + 1}]`,
+      q.vignette,
+      '',
+      ...q.options.map((opt, idx) => `(${String.fromCharCode(65 + idx)}) ${opt}`),
+      '',
+      `>>> CORRECT ANSWER: (${String.fromCharCode(65 + q.correctIndex)})`,
+      '',
+      q.explanation.correct
+    ].join('\n')).join('\n\n')
+};
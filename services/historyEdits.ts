@@ -0,0 +1,49 @@
+import { HistoricalSession, HistoryFilter, SessionDetail } from "../types";
+
+// Omitted items are an outcome of their own, so "missed" means answered and wrong everywhere it is shown or retested
+export const isMiss = (d: SessionDetail): boolean => !d.isCorrect && !d.omitted;
+
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+export const filterHistory = (history: HistoricalSession[], filter: HistoryFilter): HistoricalSession[] =>
+  history.filter(s =>
+    (!filter.from || s.timestamp >= dayStart(filter.from)) &&
+    // "to" is inclusive, so the cut-off is the start of the following day
+    (!filter.to || s.timestamp < dayStart(filter.to) + 86400000) &&
+    (!filter.specialty || s.specialties.includes(filter.specialty)) &&
+    (!filter.examType || s.examTypes.includes(filter.examType)) &&
+    (!filter.complexity || s.complexity === filter.complexity)
+  );
+
+// Exam blocks are referenced by their attempt, so folding one into another session or deleting it would orphan the report
+export const canMerge = (sessions: HistoricalSession[]): boolean =>
+  sessions.length >= 2 && sessions.every(s => !s.examAttemptId);
+
+export const canDelete = (session: HistoricalSession): boolean => !session.examAttemptId;
+
+// Rejoins a block that was split across sessions (e.g. by a crash or a resumed tab). The earliest session keeps its
+// id and timestamp; items are renumbered in the order they were answered.
+export const mergeSessions = (sessions: HistoricalSession[]): HistoricalSession => {
+  const ordered = [...sessions].sort((a, b) => a.timestamp - b.timestamp);
+  const [first] = ordered;
+  const union = <T>(pick: (s: HistoricalSession) => T[]) => [...new Set(ordered.flatMap(pick))];
+  const sum = (pick: (s: HistoricalSession) => number) => ordered.reduce((acc, s) => acc + pick(s), 0);
+  const hasDetails = ordered.some(s => s.details);
+
+  return {
+    ...first,
+    totalQuestions: sum(s => s.totalQuestions),
+    correctAnswers: sum(s => s.correctAnswers),
+    omittedAnswers: sum(s => s.omittedAnswers || 0),
+    timeTakenMs: sum(s => s.timeTakenMs),
+    specialties: union(s => s.specialties),
+    examTypes: union(s => s.examTypes),
+    // A mix of modes or complexities has no single value, so the earliest block's stands
+    mode: first.mode,
+    complexity: first.complexity,
+    excludedFromAnalytics: ordered.every(s => s.excludedFromAnalytics) || undefined,
+    details: hasDetails
+      ? ordered.flatMap(s => s.details || []).map((detail, position) => ({ ...detail, position }))
+      : undefined
+  };
+};
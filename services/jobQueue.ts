@@ -0,0 +1,136 @@
+import { Job, JobKind } from "../types";
+
+const STORAGE_KEY = 'abdu_job_queue';
+// Deep dives only matter to the card that asked for them, so they are neither resumed nor kept on failure
+const TRANSIENT_KINDS: JobKind[] = ['deepDive'];
+
+export interface JobContext {
+  payload: any;
+  signal: AbortSignal;
+  setProgress: (progress: number) => void;
+  // Persisted so a job resumed after a reload can pick up where it stopped
+  updatePayload: (changes: Record<string, any>) => void;
+  onRetry: (attempt: number, delayMs: number) => void;
+}
+
+export type JobHandler = (context: JobContext) => Promise<unknown>;
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+class JobQueue {
+  private jobs: Job[] = this.restore();
+  private handlers: Partial<Record<JobKind, JobHandler>> = {};
+  private controllers = new Map<string, AbortController>();
+  private waiters = new Map<string, { resolve: (value: any) => void; reject: (error: any) => void }>();
+  private listeners = new Set<(jobs: Job[]) => void>();
+
+  private restore(): Job[] {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    // Anything that was in flight when the page closed starts again once its handler is registered
+    return (JSON.parse(saved) as Job[]).map(job => job.status === 'running' ? { ...job, status: 'queued' as const } : job);
+  }
+
+  private emit() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.jobs.filter(job => !TRANSIENT_KINDS.includes(job.kind))));
+    const snapshot = [...this.jobs];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private patch(id: string, changes: Partial<Job>) {
+    this.jobs = this.jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    this.emit();
+  }
+
+  private remove(id: string) {
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.emit();
+  }
+
+  getJobs(): Job[] {
+    return [...this.jobs];
+  }
+
+  getJob(id: string): Job | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  subscribe(listener: (jobs: Job[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getJobs());
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Handlers live with the state they update, so they are registered by the app rather than defined here
+  register(kind: JobKind, handler: JobHandler): () => void {
+    this.handlers[kind] = handler;
+    this.jobs.filter(job => job.kind === kind && job.status === 'queued').forEach(job => this.start(job.id));
+    return () => {
+      if (this.handlers[kind] === handler) delete this.handlers[kind];
+    };
+  }
+
+  enqueue<T>(kind: JobKind, label: string, payload: any, id: string = crypto.randomUUID()): Promise<T> {
+    const job: Job = { id, kind, label, status: 'queued', progress: 0, retries: 0, payload, createdAt: Date.now() };
+    this.jobs = [...this.jobs.filter(existing => existing.id !== id), job];
+    this.emit();
+    const result = new Promise<T>((resolve, reject) => this.waiters.set(id, { resolve, reject }));
+    this.start(id);
+    return result;
+  }
+
+  cancel(id: string) {
+    const controller = this.controllers.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    // Not started yet (e.g. restored before its handler was registered)
+    this.remove(id);
+    this.waiters.get(id)?.reject(new DOMException('Job cancelled', 'AbortError'));
+    this.waiters.delete(id);
+  }
+
+  retry(id: string) {
+    const job = this.getJob(id);
+    if (!job || job.status !== 'failed') return;
+    this.patch(id, { status: 'queued', error: undefined, retries: job.retries + 1 });
+    this.start(id);
+  }
+
+  dismiss(id: string) {
+    if (this.getJob(id)?.status === 'failed') this.remove(id);
+  }
+
+  private async start(id: string) {
+    const job = this.getJob(id);
+    const handler = job && this.handlers[job.kind];
+    if (!job || job.status !== 'queued' || !handler) return;
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.patch(id, { status: 'running', progress: 0 });
+
+    try {
+      const result = await handler({
+        payload: job.payload,
+        signal: controller.signal,
+        setProgress: progress => this.patch(id, { progress: Math.round(progress) }),
+        updatePayload: changes => this.patch(id, { payload: { ...this.getJob(id)?.payload, ...changes } }),
+        onRetry: () => this.patch(id, { retries: (this.getJob(id)?.retries || 0) + 1 })
+      });
+      this.remove(id);
+      this.waiters.get(id)?.resolve(result);
+    } catch (error: any) {
+      // Cancelled jobs simply disappear; failures stay listed so they can be retried
+      if (controller.signal.aborted || isAbortError(error) || TRANSIENT_KINDS.includes(job.kind)) this.remove(id);
+      else this.patch(id, { status: 'failed', error: error?.message || String(error) });
+      this.waiters.get(id)?.reject(error);
+    } finally {
+      this.controllers.delete(id);
+      this.waiters.delete(id);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
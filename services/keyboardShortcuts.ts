@@ -0,0 +1,87 @@
+import { KeyBindings, ShortcutAction } from "../types";
+
+const BINDINGS_KEY = 'abdu_key_bindings';
+
+export type ShortcutContext = 'question' | 'review' | 'cards';
+
+// Defaults follow the Prometric test driver where it has a shortcut
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  optionA: ['a', '1'],
+  optionB: ['b', '2'],
+  optionC: ['c', '3'],
+  optionD: ['d', '4'],
+  optionE: ['e', '5'],
+  submit: ['Enter'],
+  next: ['n'],
+  prev: ['p'],
+  flag: ['f'],
+  strike: ['s'],
+  // Plain B selects option B, so marking takes Shift+B
+  bookmark: ['B'],
+  labs: ['l'],
+  help: ['?'],
+  flip: [' '],
+  rateAgain: ['1'],
+  rateHard: ['2'],
+  rateGood: ['3'],
+  rateEasy: ['4']
+};
+
+export const SHORTCUTS: { action: ShortcutAction; label: string; context: ShortcutContext }[] = [
+  { action: 'optionA', label: 'Select option A', context: 'question' },
+  { action: 'optionB', label: 'Select option B', context: 'question' },
+  { action: 'optionC', label: 'Select option C', context: 'question' },
+  { action: 'optionD', label: 'Select option D', context: 'question' },
+  { action: 'optionE', label: 'Select option E', context: 'question' },
+  { action: 'submit', label: 'Submit / continue', context: 'question' },
+  { action: 'next', label: 'Next item', context: 'question' },
+  { action: 'prev', label: 'Previous item', context: 'question' },
+  { action: 'flag', label: 'Flag for review', context: 'question' },
+  { action: 'strike', label: 'Strike out (then an option key)', context: 'question' },
+  { action: 'bookmark', label: 'Bookmark to vault', context: 'question' },
+  { action: 'labs', label: 'Lab values', context: 'question' },
+  { action: 'help', label: 'Show shortcuts', context: 'question' },
+  { action: 'flip', label: 'Reveal / flip card', context: 'cards' },
+  { action: 'rateAgain', label: 'Rate Again', context: 'review' },
+  { action: 'rateHard', label: 'Rate Hard', context: 'review' },
+  { action: 'rateGood', label: 'Rate Good', context: 'review' },
+  { action: 'rateEasy', label: 'Rate Easy', context: 'review' }
+];
+
+export const OPTION_ACTIONS: ShortcutAction[] = ['optionA', 'optionB', 'optionC', 'optionD', 'optionE'];
+
+export const loadKeyBindings = (): KeyBindings => {
+  const saved = localStorage.getItem(BINDINGS_KEY);
+  return saved ? { ...DEFAULT_KEY_BINDINGS, ...JSON.parse(saved) } : DEFAULT_KEY_BINDINGS;
+};
+
+export const saveKeyBindings = (bindings: KeyBindings) => {
+  localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+};
+
+// Letters keep their case only when Shift is held, so Caps Lock does not change what a key does
+export const normalizeKey = (key: string, shiftKey: boolean): string =>
+  /^[a-z]$/i.test(key) ? (shiftKey ? key.toUpperCase() : key.toLowerCase()) : key;
+
+export const keyLabel = (key: string): string => {
+  if (key === ' ') return 'Space';
+  if (/^[A-Z]$/.test(key)) return `Shift+${key}`;
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+// Of the actions a screen handles, the one bound to this key; screens list their actions so a key reused elsewhere does not clash
+export const actionForKey = (key: string, bindings: KeyBindings, actions: ShortcutAction[]): ShortcutAction | undefined =>
+  actions.find(action => bindings[action].includes(key));
+
+// Actions sharing a key on the same screen; the help overlay and settings flag these
+export const conflictingActions = (bindings: KeyBindings): Set<ShortcutAction> => {
+  const conflicts = new Set<ShortcutAction>();
+  const screens: ShortcutAction[][] = [
+    SHORTCUTS.filter(s => s.context !== 'review').map(s => s.action),
+    ['submit', 'flip', 'labs', 'help', 'rateAgain', 'rateHard', 'rateGood', 'rateEasy']
+  ];
+  screens.forEach(actions => actions.forEach(a => actions.forEach(b => {
+    if (a !== b && bindings[a].some(key => bindings[b].includes(key))) conflicts.add(a);
+  })));
+  return conflicts;
+};
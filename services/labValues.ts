@@ -0,0 +1,128 @@
+import { LabCategory, LabMention, LabValue } from "../types";
+
+export const LAB_CATEGORIES: LabCategory[] = ['Serum', 'Hematologic', 'Cerebrospinal Fluid', 'Urine', 'Blood Gases'];
+
+// Adult reference ranges as printed on the standard exam lab sheet; bundled so the drawer works offline
+export const LAB_VALUES: LabValue[] = [
+  // Serum
+  { id: 'alt', name: 'Alanine aminotransferase (ALT)', category: 'Serum', conventional: '10–40 U/L', si: '10–40 U/L', aliases: ['alanine aminotransferase', 'ALT'] },
+  { id: 'ast', name: 'Aspartate aminotransferase (AST)', category: 'Serum', conventional: '12–38 U/L', si: '12–38 U/L', aliases: ['aspartate aminotransferase', 'AST'] },
+  { id: 'alp', name: 'Alkaline phosphatase', category: 'Serum', conventional: '25–100 U/L', si: '25–100 U/L', aliases: ['alkaline phosphatase'] },
+  { id: 'amylase', name: 'Amylase', category: 'Serum', conventional: '25–125 U/L', si: '25–125 U/L', aliases: ['amylase'] },
+  { id: 'lipase', name: 'Lipase', category: 'Serum', conventional: '13–60 U/L', si: '13–60 U/L', aliases: ['lipase'] },
+  { id: 'bili-total', name: 'Bilirubin, total', category: 'Serum', conventional: '0.1–1.0 mg/dL', si: '2–17 µmol/L', aliases: ['total bilirubin', 'bilirubin, total', 'bilirubin'] },
+  { id: 'bili-direct', name: 'Bilirubin, direct', category: 'Serum', conventional: '0.0–0.3 mg/dL', si: '0–5 µmol/L', aliases: ['direct bilirubin', 'bilirubin, direct', 'conjugated bilirubin'] },
+  { id: 'calcium', name: 'Calcium', category: 'Serum', conventional: '8.4–10.2 mg/dL', si: '2.1–2.6 mmol/L', aliases: ['calcium', 'Ca2+'] },
+  { id: 'chol-total', name: 'Cholesterol, total', category: 'Serum', conventional: '<200 mg/dL', si: '<5.2 mmol/L', aliases: ['total cholesterol', 'cholesterol'] },
+  { id: 'hdl', name: 'Cholesterol, HDL', category: 'Serum', conventional: '40–60 mg/dL', si: '1.0–1.6 mmol/L', aliases: ['HDL'] },
+  { id: 'ldl', name: 'Cholesterol, LDL', category: 'Serum', conventional: '<160 mg/dL', si: '<4.2 mmol/L', aliases: ['LDL'] },
+  { id: 'triglycerides', name: 'Triglycerides', category: 'Serum', conventional: '<150 mg/dL', si: '<1.70 mmol/L', aliases: ['triglycerides'] },
+  { id: 'cortisol', name: 'Cortisol (0800 h / 1600 h)', category: 'Serum', conventional: '5–23 µg/dL / 3–15 µg/dL', si: '138–635 nmol/L / 82–413 nmol/L', aliases: ['cortisol'] },
+  { id: 'ck', name: 'Creatine kinase', category: 'Serum', conventional: 'M 25–90 U/L; F 10–70 U/L', si: 'M 25–90 U/L; F 10–70 U/L', aliases: ['creatine kinase', 'CK'] },
+  { id: 'creatinine', name: 'Creatinine', category: 'Serum', conventional: '0.6–1.2 mg/dL', si: '53–106 µmol/L', aliases: ['creatinine'] },
+  { id: 'sodium', name: 'Sodium (Na+)', category: 'Serum', conventional: '136–146 mEq/L', si: '136–146 mmol/L', aliases: ['sodium', 'Na+'] },
+  { id: 'potassium', name: 'Potassium (K+)', category: 'Serum', conventional: '3.5–5.0 mEq/L', si: '3.5–5.0 mmol/L', aliases: ['potassium', 'K+'] },
+  { id: 'chloride', name: 'Chloride (Cl−)', category: 'Serum', conventional: '95–105 mEq/L', si: '95–105 mmol/L', aliases: ['chloride', 'Cl−', 'Cl-'] },
+  { id: 'bicarbonate', name: 'Bicarbonate (HCO3−)', category: 'Serum', conventional: '22–28 mEq/L', si: '22–28 mmol/L', aliases: ['bicarbonate', 'HCO3−', 'HCO3-'] },
+  { id: 'magnesium', name: 'Magnesium (Mg2+)', category: 'Serum', conventional: '1.5–2.0 mg/dL', si: '0.75–1.0 mmol/L', aliases: ['magnesium', 'Mg2+'] },
+  { id: 'phosphorus', name: 'Phosphorus (inorganic)', category: 'Serum', conventional: '3.0–4.5 mg/dL', si: '1.0–1.5 mmol/L', aliases: ['phosphorus', 'phosphate'] },
+  { id: 'ferritin', name: 'Ferritin', category: 'Serum', conventional: 'M 20–250 ng/mL; F 10–120 ng/mL', si: 'M 20–250 µg/L; F 10–120 µg/L', aliases: ['ferritin'] },
+  { id: 'glucose', name: 'Glucose (fasting)', category: 'Serum', conventional: '70–100 mg/dL', si: '3.8–5.6 mmol/L', aliases: ['glucose'] },
+  { id: 'hba1c', name: 'Hemoglobin A1c', category: 'Serum', conventional: '≤6%', si: '≤42 mmol/mol', aliases: ['hemoglobin A1c', 'HbA1c', 'A1c'] },
+  { id: 'iron', name: 'Iron', category: 'Serum', conventional: '50–170 µg/dL', si: '9–30 µmol/L', aliases: ['serum iron', 'iron'] },
+  { id: 'tibc', name: 'Total iron-binding capacity', category: 'Serum', conventional: '250–400 µg/dL', si: '45–72 µmol/L', aliases: ['total iron-binding capacity', 'TIBC'] },
+  { id: 'transferrin-sat', name: 'Transferrin saturation', category: 'Serum', conventional: '20–50%', si: '0.20–0.50', aliases: ['transferrin saturation'] },
+  { id: 'ldh', name: 'Lactate dehydrogenase', category: 'Serum', conventional: '45–200 U/L', si: '45–200 U/L', aliases: ['lactate dehydrogenase', 'LDH'] },
+  { id: 'lactate', name: 'Lactate (venous)', category: 'Serum', conventional: '4.5–19.8 mg/dL', si: '0.5–2.2 mmol/L', aliases: ['lactate'] },
+  { id: 'ammonia', name: 'Ammonia (venous)', category: 'Serum', conventional: '19–60 µg/dL', si: '11–35 µmol/L', aliases: ['ammonia'] },
+  { id: 'osm-serum', name: 'Osmolality', category: 'Serum', conventional: '275–295 mOsmol/kg H2O', si: '275–295 mOsmol/kg H2O', aliases: ['serum osmolality', 'plasma osmolality'] },
+  { id: 'pth', name: 'Parathyroid hormone, intact', category: 'Serum', conventional: '10–65 pg/mL', si: '10–65 ng/L', aliases: ['parathyroid hormone', 'PTH'] },
+  { id: 'protein-total', name: 'Proteins, total', category: 'Serum', conventional: '6.0–7.8 g/dL', si: '60–78 g/L', aliases: ['total protein'] },
+  { id: 'albumin', name: 'Albumin', category: 'Serum', conventional: '3.5–5.5 g/dL', si: '35–55 g/L', aliases: ['albumin'] },
+  { id: 'tsh', name: 'Thyroid-stimulating hormone', category: 'Serum', conventional: '0.4–4.0 µU/mL', si: '0.4–4.0 mIU/L', aliases: ['thyroid-stimulating hormone', 'TSH'] },
+  { id: 't4-free', name: 'Thyroxine (T4), free', category: 'Serum', conventional: '0.9–1.7 ng/dL', si: '12.0–21.9 pmol/L', aliases: ['free T4', 'free thyroxine'] },
+  { id: 't4-total', name: 'Thyroxine (T4), total', category: 'Serum', conventional: '5–12 µg/dL', si: '64–155 nmol/L', aliases: ['thyroxine', 'T4'] },
+  { id: 't3-total', name: 'Triiodothyronine (T3), total', category: 'Serum', conventional: '100–200 ng/dL', si: '1.5–3.1 nmol/L', aliases: ['triiodothyronine', 'T3'] },
+  { id: 'troponin', name: 'Troponin I', category: 'Serum', conventional: '≤0.04 ng/mL', si: '≤0.04 µg/L', aliases: ['troponin I', 'troponin'] },
+  { id: 'bun', name: 'Urea nitrogen', category: 'Serum', conventional: '7–18 mg/dL', si: '2.5–6.4 mmol/L', aliases: ['urea nitrogen', 'BUN'] },
+  { id: 'uric-acid', name: 'Uric acid', category: 'Serum', conventional: '3.0–8.2 mg/dL', si: '0.18–0.48 mmol/L', aliases: ['uric acid'] },
+
+  // Hematologic
+  { id: 'hemoglobin', name: 'Hemoglobin', category: 'Hematologic', conventional: 'M 13.5–17.5 g/dL; F 12.0–16.0 g/dL', si: 'M 135–175 g/L; F 120–160 g/L', aliases: ['hemoglobin', 'Hb', 'Hgb'] },
+  { id: 'hematocrit', name: 'Hematocrit', category: 'Hematologic', conventional: 'M 41–53%; F 36–46%', si: 'M 0.41–0.53; F 0.36–0.46', aliases: ['hematocrit', 'Hct'] },
+  { id: 'wbc', name: 'Leukocyte count', category: 'Hematologic', conventional: '4,500–11,000/mm3', si: '4.5–11.0 × 10⁹/L', aliases: ['leukocyte count', 'white blood cell count', 'WBC'] },
+  { id: 'neutrophils', name: 'Neutrophils, segmented', category: 'Hematologic', conventional: '54–62%', si: '0.54–0.62', aliases: ['segmented neutrophils', 'neutrophils'] },
+  { id: 'bands', name: 'Neutrophils, bands', category: 'Hematologic', conventional: '3–5%', si: '0.03–0.05', aliases: ['bands', 'band forms'] },
+  { id: 'lymphocytes', name: 'Lymphocytes', category: 'Hematologic', conventional: '25–33%', si: '0.25–0.33', aliases: ['lymphocytes'] },
+  { id: 'monocytes', name: 'Monocytes', category: 'Hematologic', conventional: '3–7%', si: '0.03–0.07', aliases: ['monocytes'] },
+  { id: 'eosinophils', name: 'Eosinophils', category: 'Hematologic', conventional: '1–3%', si: '0.01–0.03', aliases: ['eosinophils'] },
+  { id: 'basophils', name: 'Basophils', category: 'Hematologic', conventional: '0–0.75%', si: '0–0.0075', aliases: ['basophils'] },
+  { id: 'platelets', name: 'Platelet count', category: 'Hematologic', conventional: '150,000–400,000/mm3', si: '150–400 × 10⁹/L', aliases: ['platelet count', 'platelets'] },
+  { id: 'mcv', name: 'Mean corpuscular volume', category: 'Hematologic', conventional: '80–100 µm3', si: '80–100 fL', aliases: ['mean corpuscular volume', 'MCV'] },
+  { id: 'mch', name: 'Mean corpuscular hemoglobin', category: 'Hematologic', conventional: '25–35 pg/cell', si: '0.39–0.54 fmol/cell', aliases: ['mean corpuscular hemoglobin', 'MCH'] },
+  { id: 'mchc', name: 'Mean corpuscular hemoglobin concentration', category: 'Hematologic', conventional: '31–36% Hb/cell', si: '4.8–5.6 mmol Hb/L', aliases: ['mean corpuscular hemoglobin concentration', 'MCHC'] },
+  { id: 'reticulocytes', name: 'Reticulocyte count', category: 'Hematologic', conventional: '0.5–1.5%', si: '0.005–0.015', aliases: ['reticulocyte count', 'reticulocytes'] },
+  { id: 'esr', name: 'Erythrocyte sedimentation rate (Westergren)', category: 'Hematologic', conventional: 'M 0–15 mm/h; F 0–20 mm/h', si: 'M 0–15 mm/h; F 0–20 mm/h', aliases: ['erythrocyte sedimentation rate', 'ESR'] },
+  { id: 'pt', name: 'Prothrombin time', category: 'Hematologic', conventional: '11–15 s', si: '11–15 s', aliases: ['prothrombin time', 'PT'] },
+  { id: 'inr', name: 'International normalized ratio', category: 'Hematologic', conventional: '0.8–1.2', si: '0.8–1.2', aliases: ['INR'] },
+  { id: 'ptt', name: 'Partial thromboplastin time (activated)', category: 'Hematologic', conventional: '25–40 s', si: '25–40 s', aliases: ['partial thromboplastin time', 'aPTT', 'PTT'] },
+  { id: 'fibrinogen', name: 'Fibrinogen', category: 'Hematologic', conventional: '200–400 mg/dL', si: '2–4 g/L', aliases: ['fibrinogen'] },
+  { id: 'd-dimer', name: 'D-dimer', category: 'Hematologic', conventional: '≤250 ng/mL', si: '≤1.4 nmol/L', aliases: ['D-dimer'] },
+
+  // Cerebrospinal fluid
+  { id: 'csf-cells', name: 'Cell count', category: 'Cerebrospinal Fluid', conventional: '0–5/mm3', si: '0–5 × 10⁶/L', aliases: ['CSF cell count', 'CSF leukocyte count'] },
+  { id: 'csf-glucose', name: 'Glucose', category: 'Cerebrospinal Fluid', conventional: '40–70 mg/dL', si: '2.2–3.9 mmol/L', aliases: ['CSF glucose'] },
+  { id: 'csf-protein', name: 'Proteins, total', category: 'Cerebrospinal Fluid', conventional: '<40 mg/dL', si: '<0.40 g/L', aliases: ['CSF protein'] },
+  { id: 'csf-chloride', name: 'Chloride', category: 'Cerebrospinal Fluid', conventional: '118–132 mEq/L', si: '118–132 mmol/L', aliases: ['CSF chloride'] },
+  { id: 'csf-gamma', name: 'Gamma globulin', category: 'Cerebrospinal Fluid', conventional: '3–12% total proteins', si: '0.03–0.12', aliases: ['CSF gamma globulin'] },
+  { id: 'csf-pressure', name: 'Pressure', category: 'Cerebrospinal Fluid', conventional: '70–180 mm H2O', si: '70–180 mm H2O', aliases: ['opening pressure'] },
+
+  // Urine
+  { id: 'urine-calcium', name: 'Calcium', category: 'Urine', conventional: '100–300 mg/24 h', si: '2.5–7.5 mmol/24 h', aliases: ['urine calcium', 'urinary calcium'] },
+  { id: 'crcl', name: 'Creatinine clearance', category: 'Urine', conventional: 'M 97–137 mL/min; F 88–128 mL/min', si: 'M 97–137 mL/min; F 88–128 mL/min', aliases: ['creatinine clearance'] },
+  { id: 'urine-osm', name: 'Osmolality', category: 'Urine', conventional: '50–1200 mOsmol/kg H2O', si: '50–1200 mOsmol/kg H2O', aliases: ['urine osmolality'] },
+  { id: 'urine-oxalate', name: 'Oxalate', category: 'Urine', conventional: '8–40 µg/mL', si: '90–445 µmol/L', aliases: ['urine oxalate', 'oxalate'] },
+  { id: 'urine-protein', name: 'Proteins, total', category: 'Urine', conventional: '<150 mg/24 h', si: '<0.15 g/24 h', aliases: ['urine protein', 'proteinuria'] },
+
+  // Blood gases, arterial (room air)
+  { id: 'ph', name: 'pH', category: 'Blood Gases', conventional: '7.35–7.45', si: '[H+] 36–44 nmol/L', aliases: ['pH'] },
+  { id: 'pco2', name: 'PCO2', category: 'Blood Gases', conventional: '33–45 mm Hg', si: '4.4–5.9 kPa', aliases: ['PCO2', 'PaCO2', 'Pco2'] },
+  { id: 'po2', name: 'PO2', category: 'Blood Gases', conventional: '75–105 mm Hg', si: '10.0–14.0 kPa', aliases: ['PO2', 'PaO2', 'Po2'] }
+];
+
+export const searchLabs = (query: string, category?: LabCategory): LabValue[] => {
+  const needle = query.trim().toLowerCase();
+  return LAB_VALUES.filter(lab =>
+    (!category || lab.category === category) &&
+    (!needle || lab.name.toLowerCase().includes(needle) || lab.aliases.some(alias => alias.toLowerCase().includes(needle)))
+  );
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Word aliases ("sodium", "free T4") match in any case. Acronyms must match as written, so "pt is a 45-year-old" is
+// not a lab, and need their value close by, so neither is a "T4 vertebral fracture at 3 cm"
+const isWordAlias = (alias: string) => /[a-z]{4,}/.test(alias);
+
+// Longest aliases first, so "direct bilirubin" wins over "bilirubin" and "CSF glucose" over "glucose"
+const ALIAS_PATTERNS = (() => {
+  const aliases = LAB_VALUES.flatMap(lab => lab.aliases.map(alias => ({ alias, labId: lab.id })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+  const lookup = new Map(aliases.map(({ alias, labId }) => [alias.toLowerCase(), labId]));
+  // A mention counts only when a value follows before the clause ends, so "calcium channel blocker" is not linked
+  const build = (group: typeof aliases, reach: number, flags: string) =>
+    new RegExp(`(?<![\\w-])(${group.map(a => escapeRegExp(a.alias)).join('|')})(?![\\w])(?=[^.;\\n\\d]{0,${reach}}\\d)`, flags);
+  return {
+    regexes: [build(aliases.filter(a => isWordAlias(a.alias)), 30, 'gi'), build(aliases.filter(a => !isWordAlias(a.alias)), 15, 'g')],
+    lookup
+  };
+})();
+
+export const findLabMentions = (text: string): LabMention[] => {
+  const matches = ALIAS_PATTERNS.regexes
+    .flatMap(regex => [...text.matchAll(regex)])
+    .map(match => ({ start: match.index!, end: match.index! + match[1].length, labId: ALIAS_PATTERNS.lookup.get(match[1].toLowerCase())! }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+  // The two patterns can overlap ("A1c" inside "hemoglobin A1c"); the earlier, longer mention wins
+  return matches.filter((m, idx) => !matches.slice(0, idx).some(prev => m.start < prev.end));
+};
@@ -0,0 +1,62 @@
+import { HistoricalSession, LibraryBlockOptions, MedicalSpecialty, Question } from "../types";
+import { isMiss } from "./historyEdits";
+
+export interface LibraryIndex {
+  library: Record<string, Question>;
+  history: HistoricalSession[];
+  bookmarkIds: string[];
+}
+
+interface QuestionRecord {
+  lastSeen: number;
+  // Outcome of the most recent attempt
+  missed: boolean;
+  omitted: boolean;
+  flagged: boolean;
+  // Questions carry no specialty of their own, so they inherit those of every block they appeared in
+  specialties: Set<MedicalSpecialty>;
+}
+
+const recordsFrom = (history: HistoricalSession[]): Map<string, QuestionRecord> => {
+  const records = new Map<string, QuestionRecord>();
+  history.forEach(session => (session.details || []).forEach(d => {
+    const record = records.get(d.questionId) || { lastSeen: 0, missed: false, omitted: false, flagged: false, specialties: new Set<MedicalSpecialty>() };
+    // A correct retest clears an earlier miss
+    if (session.timestamp >= record.lastSeen) {
+      record.lastSeen = session.timestamp;
+      record.missed = isMiss(d);
+      record.omitted = !!d.omitted;
+    }
+    record.flagged = record.flagged || !!d.flagged;
+    session.specialties.forEach(s => record.specialties.add(s));
+    records.set(d.questionId, record);
+  }));
+  return records;
+};
+
+// Every library question matching the options, least recently seen first so a short block retests the stalest items
+export const matchLibrary = (options: LibraryBlockOptions, { library, history, bookmarkIds }: LibraryIndex): Question[] => {
+  const records = recordsFrom(history);
+  const matchesSource = (q: Question, record?: QuestionRecord): boolean => {
+    switch (options.source) {
+      case 'incorrect': return !!record?.missed;
+      case 'omitted': return !!record?.omitted;
+      case 'flagged': return !!record?.flagged;
+      case 'unused': return !record || record.lastSeen < (options.unusedSince ?? Date.now());
+      case 'bookmarked': return bookmarkIds.includes(q.id);
+      default: return true;
+    }
+  };
+
+  return Object.values(library)
+    .filter(q => {
+      const record = records.get(q.id);
+      if (!matchesSource(q, record)) return false;
+      if (options.tag && !q.tags?.includes(options.tag)) return false;
+      return !options.specialty || !!record?.specialties.has(options.specialty);
+    })
+    .sort((a, b) => (records.get(a.id)?.lastSeen || 0) - (records.get(b.id)?.lastSeen || 0));
+};
+
+export const libraryTags = (library: Record<string, Question>): string[] =>
+  [...new Set(Object.values(library).flatMap(q => q.tags || []))].sort((a, b) => a.localeCompare(b));
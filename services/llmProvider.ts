@@ -0,0 +1,295 @@
+import { Type, Schema } from "@google/genai";
+import { AIProvider, ProviderId, Question, MasteryCard, RequestOptions, UsageFeature } from "../types";
+import { classifyError, QuotaError, SchemaError } from "./aiErrors";
+import { recordUsage, estimateTokens } from "./usageService";
+import { requestScheduler } from "./requestScheduler";
+import { TAXONOMY_PROMPT } from "./tagTaxonomy";
+
+export interface LLMResponse {
+  text: string;
+  // Omitted when the server does not report usage; the meter then estimates from text length
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Transport a text-generating backend must provide; prompts and post-processing are shared below
+export interface LLMBackend {
+  model: string;
+  generateJson: (prompt: string, schema?: Schema) => Promise<LLMResponse>;
+  generateText: (prompt: string) => Promise<LLMResponse>;
+}
+
+const MAX_HINTED_WAIT_MS = 60000;
+
+// Backoff wait that ends early (rejecting) when the caller cancels
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  // Jobs reuse one signal across every retry, so the listener must not outlive this wait
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Helper for exponential backoff on quota, server and network errors; anything else fails fast.
+// Every attempt goes through the shared scheduler, which also holds the rate-limit cooldown for all callers.
+export const fetchWithRetry = async (fn: () => Promise<any>, options: RequestOptions = {}, maxRetries = 5, initialDelay = 3000) => {
+  let retries = 0;
+  while (true) {
+    options.signal?.throwIfAborted();
+    try {
+      return await requestScheduler.run(fn, options);
+    } catch (raw) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      const error = classifyError(raw);
+      const backoff = initialDelay * Math.pow(2, retries) + (Math.random() * 1000);
+
+      if (error instanceof QuotaError) {
+        // A provider's own retry hint beats guessing; long cooldowns are capped here and surfaced to the user instead
+        const delay = error.retryAfterMs || backoff;
+        requestScheduler.cooldown(Math.min(delay, MAX_HINTED_WAIT_MS));
+        if (retries < maxRetries && delay <= MAX_HINTED_WAIT_MS) {
+          console.warn(`API Attempt ${retries + 1} rate limited. Shared cooldown of ${Math.round(delay)}ms before retrying.`);
+          options.onRetry?.(retries + 1, delay);
+          retries++;
+          continue;
+        }
+        throw error;
+      }
+
+      if (error.retryable && retries < maxRetries) {
+        console.warn(`API Attempt ${retries + 1} failed (${error.name}${error.status ? ` ${error.status}` : ''}). Retrying in ${Math.round(backoff)}ms... Error: ${error.message.substring(0, 100)}`);
+        options.onRetry?.(retries + 1, backoff);
+        await sleep(backoff, options.signal);
+        retries++;
+        continue;
+      }
+
+      throw error;
+    }
+  }
+};
+
+// Times one backend call and logs its token usage; logging failures never break the call itself
+const metered = async (provider: ProviderId, backend: LLMBackend, feature: UsageFeature, units: number, prompt: string, request: () => Promise<LLMResponse>): Promise<string> => {
+  const started = performance.now();
+  const response = await request();
+  const estimated = response.inputTokens === undefined || response.outputTokens === undefined;
+  recordUsage({
+    timestamp: Date.now(),
+    feature,
+    provider,
+    model: backend.model,
+    inputTokens: response.inputTokens ?? estimateTokens(prompt),
+    outputTokens: response.outputTokens ?? estimateTokens(response.text),
+    latencyMs: Math.round(performance.now() - started),
+    units,
+    ...(estimated ? { estimated } : {})
+  }).catch(err => console.warn('Failed to record usage', err));
+  return response.text;
+};
+
+// Structured output can still come back as prose or a wrapped object from some models
+const parseJsonArray = (text: string): any[] => {
+  const parsed = JSON.parse(text || "[]");
+  if (!Array.isArray(parsed)) throw new SchemaError("Expected a JSON array from the model");
+  return parsed;
+};
+
+export const QUESTION_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      vignette: { type: Type.STRING },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      correctIndex: { type: Type.INTEGER },
+      explanation: {
+        type: Type.OBJECT,
+        properties: {
+          correct: { type: Type.STRING },
+          incorrect: { type: Type.STRING },
+          keyLearningPoint: { type: Type.STRING }
+        },
+        required: ["correct", "incorrect", "keyLearningPoint"]
+      },
+      tags: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Content outline labels: one system, one discipline and optionally one physician task"
+      }
+    },
+    required: ["id", "vignette", "options", "correctIndex", "explanation", "tags"]
+  }
+};
+
+export const MASTERY_CARD_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      type: { type: Type.STRING },
+      front: { type: Type.STRING },
+      back: { type: Type.STRING }
+    },
+    required: ["id", "type", "front", "back"]
+  }
+};
+
+export const createLLMProvider = (id: ProviderId, label: string, backend: LLMBackend, options: RequestOptions = {}): AIProvider => ({
+  id,
+  label,
+
+  generateQuestions: async (specialties, examTypes, complexity, count = 5, topics) => {
+    return fetchWithRetry(async () => {
+      const prompt = `USMLE ${examTypes.join("/")} ${complexity} level. Specialties: ${specialties.join(", ")}. ${topics ? "Topics: " + topics : ""}.
+      Generate ${count} vignettes with 5 options and detailed rationale.
+      IMPORTANT: For each question, provide 'tags' with one system, one discipline and optionally one physician task, copied exactly from this list:
+      ${TAXONOMY_PROMPT}`;
+
+      return parseJsonArray(await metered(id, backend, 'questions', count, prompt, () => backend.generateJson(prompt, QUESTION_SCHEMA)));
+    }, options);
+  },
+
+  generateStudyPlan: async (performanceSummary, examDate, dailyHours, targetExam) => {
+    return fetchWithRetry(async () => {
+      const prompt = `Act as an elite USMLE tutor.
+      USER PERFORMANCE SUMMARY: ${performanceSummary}
+      TARGET EXAM: ${targetExam}
+      EXAM DATE: ${examDate}
+      DAILY AVAILABILITY: ${dailyHours} hours
+
+      Generate a personalized weekly study plan from today until the exam date.
+      Focus HEAVILY on the weak areas identified in the performance summary.
+      For each week, provide specific high-yield resources (e.g., 'First Aid Step 2 - Cardiology chapter', 'UWorld Endocrinology block', 'OnlineMedEd Surgery videos').
+
+      Return a JSON object where keys are "week1", "week2", etc.
+      Each value must be an object with:
+      - "topics": string[]
+      - "hours": number (total for the week)
+      - "resources": string[]
+      - "focusDescription": string (brief explanation of the weekly strategy)
+      `;
+
+      return JSON.parse(await metered(id, backend, 'studyPlan', 1, prompt, () => backend.generateJson(prompt)) || "{}");
+    }, options);
+  },
+
+  generateSimilarQuestions: async (failedQuestion, examTypes, complexity, count = 3, userFocus) => {
+    return fetchWithRetry(async () => {
+      const prompt = `Act as an expert USMLE tutor. Concepts missed: "${failedQuestion.explanation.keyLearningPoint}".
+      ${userFocus ? `User specific focus request: "${userFocus}".` : "Determine the best focus area based on the missed learning point."}
+      Generate exactly ${count} unique clinical vignettes for USMLE ${examTypes.join("/")} at ${complexity} level testing this concept.
+      Provide 'tags' with one system, one discipline and optionally one physician task, copied exactly from this list:
+      ${TAXONOMY_PROMPT}`;
+
+      const questions = parseJsonArray(await metered(id, backend, 'remediation', count, prompt, () => backend.generateJson(prompt, QUESTION_SCHEMA)));
+
+      // Marked so the library can filter them; analytics leaves meta-tags out
+      return questions.map((q: any) => ({
+        ...q,
+        tags: [...(q.tags || []), "Remediation"]
+      }));
+    }, options);
+  },
+
+  generateMasteryCards: async (question: Question): Promise<MasteryCard[]> => {
+    return fetchWithRetry(async () => {
+      const prompt = `Create 4 study cards (Pathophysiology, Diagnosis, Management, Differentiator) for this clinical scenario: "${question.vignette}"`;
+
+      const cards = parseJsonArray(await metered(id, backend, 'masteryCards', 1, prompt, () => backend.generateJson(prompt, MASTERY_CARD_SCHEMA)));
+      return cards.map((c: any) => ({ ...c, parentId: question.id }));
+    }, options);
+  },
+
+  deepDiveExplanation: async (question) => {
+    return fetchWithRetry(async () => {
+      const prompt = `Masterclass explanation for this USMLE vignette: "${question.vignette}". Explain why ${question.options[question.correctIndex]} is correct and distractors are wrong.`;
+
+      return await metered(id, backend, 'deepDive', 1, prompt, () => backend.generateText(prompt)) || "Deep dive generation failed.";
+    }, options);
+  },
+
+  generateSessionSummary: async (questions) => {
+    return fetchWithRetry(async () => {
+      const inputData = questions.map((q, i) => `
+      [CASE ${i+1}]
+      Vignette: ${q.vignette}
+      Correct Answer: ${q.options[q.correctIndex]}
+      Explanation: ${q.explanation.correct}
+      Key Pearl: ${q.explanation.keyLearningPoint}
+      `).join("\n\n");
+
+      const prompt = `
+      You are an expert at creating concise, high-yield, exam-focused medical summary notes.
+
+      Take the following raw or messy text (which may contain explanations, clinical cases, pearls, epidemiology, pathophysiology, etc.) and turn it into a CLEAN, READABLE PLAIN TEXT file (.txt).
+
+      Style guidelines:
+      - DO NOT USE MARKDOWN (like **bold** or ## headers) or HTML tags.
+      - Use CAPS and ASCII symbols for hierarchy.
+      - Main title: Center with equals signs (e.g. === HIGH-YIELD NOTES ===)
+      - Major Sections: Use dashes (e.g. --- PATHOPHYSIOLOGY ---)
+      - Bullet points: Use standard asterisks (*) or hyphens (-) with indentation.
+      - Clinical Pearls: Wrap in a distinct text box style (e.g. **************************).
+      - Organize logically from basics → presentation → diagnosis → management.
+      - Use spacing (double newlines) to separate sections clearly.
+
+      TECHNICAL REQUIREMENT:
+      Return ONLY the plain text string. No code blocks.
+
+      INPUT DATA:
+      ${inputData}`;
+
+      return await metered(id, backend, 'sessionSummary', questions.length, prompt, () => backend.generateText(prompt)) || "Summary generation failed";
+    }, options);
+  },
+
+  generateStudyGuide: async (questions) => {
+    return fetchWithRetry(async () => {
+      const contentStr = questions.map((q, i) => `
+      [QUESTION ${i+1}]
+      Vignette: ${q.vignette}
+      Options: ${q.options.map((opt, idx) => `(${String.fromCharCode(65+idx)}) ${opt}`).join(' ')}
+      Correct Answer: ${q.options[q.correctIndex]}
+      Key Point: ${q.explanation.keyLearningPoint}
+      Rationale (Correct): ${q.explanation.correct}
+      Rationale (Incorrect): ${q.explanation.incorrect}
+      `).join('\n\n');
+
+      const prompt = `
+      You are an expert medical educator who creates clear, high-quality, exam-oriented study content.
+
+      Take the following raw input and transform it into a professional, human-readable PLAIN TEXT (.txt) Q&A document.
+
+      Rules / Style:
+      - DO NOT USE MARKDOWN (like **bold** or ## headers) or HTML tags.
+      - Separate each case with a thick separator line:
+        ================================================================================
+      - Use [BRACKETED CAPS] for section headers (e.g. [SCENARIO], [QUESTION], [ANALYSIS]).
+      - Indent the vignette text slightly or separate it clearly.
+      - List options clearly as (A), (B), (C), etc.
+      - Mark the correct answer clearly: >>> CORRECT ANSWER: (X)
+      - Explanation: Use clear paragraphs. Separate paragraphs with blank lines.
+      - Clinical Pearl: Use a star box for emphasis:
+        ****************************************************************
+        CLINICAL PEARL: [Text]
+        ****************************************************************
+      - Ensure excellent spacing (double newlines) between sections for readability.
+
+      TECHNICAL REQUIREMENT:
+      Return ONLY the plain text string. No code blocks.
+
+      INPUT DATA:
+      ${contentStr}`;
+
+      return await metered(id, backend, 'studyGuide', questions.length, prompt, () => backend.generateText(prompt)) || "Export Failed. Please try again.";
+    }, options);
+  }
+});
@@ -0,0 +1,76 @@
+import { Schema } from "@google/genai";
+import { AIProvider, ProviderSettings, RequestOptions } from "../types";
+import { createLLMProvider, LLMResponse } from "./llmProvider";
+
+// Gemini schemas use upper-case OpenAPI type names; OpenAI-style servers expect plain JSON Schema
+const toJsonSchema = (schema: Schema): Record<string, any> => {
+  const out: Record<string, any> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return out;
+};
+
+export const createLocalProvider = (settings: ProviderSettings, options: RequestOptions = {}): AIProvider => {
+  const baseUrl = settings.localBaseUrl.replace(/\/+$/, '');
+
+  const complete = async (prompt: string, jsonMode: boolean): Promise<LLMResponse> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.localApiKey ? { Authorization: `Bearer ${settings.localApiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.localModel,
+        messages: [{ role: 'user', content: prompt }],
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      // Surface the HTTP status the same way the Gemini SDK does so the retry logic can classify it
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw Object.assign(new Error(`Local model request failed (${response.status}): ${body.substring(0, 200)}`), {
+        status: response.status,
+        ...(retryAfter > 0 ? { retryAfterMs: retryAfter * 1000 } : {})
+      });
+    }
+
+    const data = await response.json();
+    return {
+      text: data?.choices?.[0]?.message?.content || "",
+      inputTokens: data?.usage?.prompt_tokens,
+      outputTokens: data?.usage?.completion_tokens
+    };
+  };
+
+  return createLLMProvider('local', 'Local (OpenAI-compatible)', {
+    model: settings.localModel,
+
+    generateJson: async (prompt, schema) => {
+      if (!schema) {
+        return complete(`${prompt}\n\nRespond with a single JSON object only.`, true);
+      }
+
+      // JSON mode only guarantees an object at the top level, so arrays are wrapped under "items"
+      const isArray = String(schema.type).toLowerCase() === 'array';
+      const wrapped = isArray ? { type: 'object', properties: { items: toJsonSchema(schema) }, required: ['items'] } : toJsonSchema(schema);
+      const response = await complete(`${prompt}\n\nRespond with JSON only, matching this JSON Schema:\n${JSON.stringify(wrapped)}`, true);
+
+      if (!isArray || !response.text) return response;
+      const parsed = JSON.parse(response.text);
+      return { ...response, text: JSON.stringify(Array.isArray(parsed) ? parsed : parsed.items || []) };
+    },
+
+    generateText: (prompt) => complete(prompt, false)
+  }, options);
+};
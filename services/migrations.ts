@@ -0,0 +1,130 @@
+import { Question, MasteryCard, SRSState, QuizSession } from "../types";
+import { AppData } from "./databaseService";
+import { questionContentId, masteryCardContentId } from "./questionIdentity";
+import { withClassifiedTags } from "./tagTaxonomy";
+
+export interface Migration {
+  version: number;
+  description: string;
+  run: (data: AppData) => AppData;
+}
+
+// Older builds keyed everything by model-supplied ids ("q1"), which collide across blocks.
+// Re-key the library, bookmarks, mastery cards, SRS states and history onto content-derived ids.
+const migrateQuestionIdentity = (data: AppData): AppData => {
+  const idMap: Record<string, string> = {};
+  const questionLibrary: Record<string, Question> = {};
+
+  Object.entries(data.questionLibrary).forEach(([oldId, q]) => {
+    const id = questionContentId(q);
+    idMap[oldId] = id;
+    questionLibrary[id] = { ...q, id };
+  });
+
+  // A bookmark holds the vignette the user actually saw, which may differ from the library copy under a colliding id
+  const bookmarkIds: Record<string, string> = {};
+  const bookmarks: Question[] = [];
+  data.bookmarks.forEach(b => {
+    const id = questionContentId(b);
+    bookmarkIds[b.id] = id;
+    if (!questionLibrary[id]) questionLibrary[id] = { ...b, id };
+    if (!bookmarks.some(existing => existing.id === id)) bookmarks.push({ ...b, id });
+  });
+
+  const resolveQuestionId = (oldId: string) => bookmarkIds[oldId] || idMap[oldId] || oldId;
+
+  // An old id shared by items with different content cannot say which of them a past answer was for
+  const targets: Record<string, Set<string>> = {};
+  const addTarget = (oldId: string, id: string) => { (targets[oldId] ??= new Set()).add(id); };
+  Object.entries(idMap).forEach(([oldId, id]) => addTarget(oldId, id));
+  data.bookmarks.forEach(b => addTarget(b.id, questionContentId(b)));
+  const isAmbiguous = (oldId: string) => (targets[oldId]?.size || 0) > 1;
+
+  const srsStates: Record<string, SRSState> = {};
+  const carryState = (oldId: string, newId: string) => {
+    const state = data.srsStates[oldId];
+    if (state && !srsStates[newId]) srsStates[newId] = { ...state, cardId: newId };
+  };
+
+  Object.keys(data.srsStates).forEach(oldId => {
+    if (idMap[oldId] || bookmarkIds[oldId]) carryState(oldId, resolveQuestionId(oldId));
+  });
+
+  const masteryCards: Record<string, MasteryCard[]> = {};
+  Object.entries(data.masteryCards).forEach(([oldParentId, cards]) => {
+    const parentId = resolveQuestionId(oldParentId);
+    masteryCards[parentId] = cards.map(card => {
+      const id = masteryCardContentId(parentId, card);
+      carryState(card.id, id);
+      return { ...card, id, parentId };
+    });
+  });
+
+  // Anything left over (e.g. states for ids we cannot trace) is kept untouched rather than lost
+  Object.entries(data.srsStates).forEach(([id, state]) => {
+    if (!srsStates[id] && !idMap[id] && !bookmarkIds[id] && !Object.values(data.masteryCards).some(cards => cards.some(c => c.id === id))) {
+      srsStates[id] = state;
+    }
+  });
+
+  // Such details keep their old id and show as no longer in the library rather than pointing at the wrong question
+  const history = data.history.map(session => ({
+    ...session,
+    details: session.details?.map(detail => isAmbiguous(detail.questionId) ? detail : { ...detail, questionId: resolveQuestionId(detail.questionId) })
+  }));
+
+  return { ...data, questionLibrary, bookmarks, masteryCards, srsStates, history };
+};
+
+// Older history kept only whether each item was right. Block order is recoverable from the detail order and tags from
+// the library; which items were remediation cannot be recovered, so those records count everything as first pass.
+const migrateOutcomeDetail = (data: AppData): AppData => ({
+  ...data,
+  history: data.history.map(session => ({
+    ...session,
+    details: session.details?.map((detail, idx) => ({
+      ...detail,
+      position: detail.position ?? idx,
+      tags: detail.tags ?? data.questionLibrary[detail.questionId]?.tags
+    }))
+  }))
+});
+
+// Tags were free text ("Cardiology", "cardiology", "Cardiovascular") with exam types and "Board Style" mixed in.
+// Map them onto the content outline taxonomy everywhere they are stored; topics it cannot place move to unclassifiedTags.
+const migrateTagTaxonomy = (data: AppData): AppData => {
+  const questionLibrary: Record<string, Question> = {};
+  Object.entries(data.questionLibrary).forEach(([id, q]) => { questionLibrary[id] = withClassifiedTags(q); });
+
+  return {
+    ...data,
+    questionLibrary,
+    bookmarks: data.bookmarks.map(withClassifiedTags),
+    history: data.history.map(session => ({
+      ...session,
+      details: session.details?.map(detail => detail.tags ? withClassifiedTags(detail) : detail)
+    }))
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Content-derived question and card ids', run: migrateQuestionIdentity },
+  { version: 2, description: 'Block position and tags on history details', run: migrateOutcomeDetail },
+  { version: 3, description: 'Tags mapped onto the content outline taxonomy', run: migrateTagTaxonomy }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = (data: AppData, fromVersion: number): AppData =>
+  MIGRATIONS.filter(m => m.version > fromVersion).reduce((acc, m) => m.run(acc), data);
+
+// An in-progress block saved before the migration still carries the old ids
+export const migrateSessionIds = (session: QuizSession): QuizSession => {
+  const idMap: Record<string, string> = {};
+  const questions = session.questions.map(q => {
+    const id = questionContentId(q);
+    idMap[q.id] = id;
+    return { ...q, id };
+  });
+  return { ...session, questions, skippedIds: session.skippedIds?.map(id => idMap[id] || id) };
+};
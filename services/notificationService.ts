@@ -0,0 +1,101 @@
+import { classifyError, AuthError, QuotaError, NetworkError, SchemaError, RequestError } from "./aiErrors";
+import { isAbortError } from "./jobQueue";
+import { requestScheduler } from "./requestScheduler";
+
+// Used when a rate limit arrives without a retry hint
+const DEFAULT_QUOTA_COOLDOWN_MS = 60000;
+const INFO_DISMISS_MS = 6000;
+
+export type NotificationTone = 'error' | 'warning' | 'info' | 'success';
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+  // Disabled until the notification's countdown has run out
+  waitForCountdown?: boolean;
+}
+
+export interface AppNotification {
+  id: string;
+  tone: NotificationTone;
+  title: string;
+  message?: string;
+  actions?: NotificationAction[];
+  countdownUntil?: number;
+}
+
+// A key collapses repeats (e.g. several calls hitting the same rate limit) into one notification
+type NotificationInput = Omit<AppNotification, 'id'> & { key?: string; autoDismissMs?: number };
+
+class NotificationService {
+  private notifications: AppNotification[] = [];
+  private listeners = new Set<(notifications: AppNotification[]) => void>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  private emit() {
+    const snapshot = [...this.notifications];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  subscribe(listener: (notifications: AppNotification[]) => void): () => void {
+    this.listeners.add(listener);
+    listener([...this.notifications]);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  notify({ key, autoDismissMs, ...input }: NotificationInput): string {
+    const id = key || crypto.randomUUID();
+    this.notifications = [...this.notifications.filter(n => n.id !== id), { ...input, id }];
+    this.emit();
+
+    clearTimeout(this.timers.get(id));
+    const dismissAfter = autoDismissMs ?? (input.tone === 'info' || input.tone === 'success' ? INFO_DISMISS_MS : undefined);
+    if (dismissAfter) this.timers.set(id, setTimeout(() => this.dismiss(id), dismissAfter));
+    return id;
+  }
+
+  dismiss(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.notifications = this.notifications.filter(n => n.id !== id);
+    this.emit();
+  }
+}
+
+export const notifications = new NotificationService();
+
+interface ErrorRecovery {
+  onRetry?: () => void;
+  onOpenSettings?: () => void;
+}
+
+// Maps each error class to its recovery path: fix the key, wait out the quota, or simply try again
+export const notifyAIError = (error: unknown, { onRetry, onOpenSettings }: ErrorRecovery = {}) => {
+  if (isAbortError(error)) return;
+  const aiError = classifyError(error);
+  console.error(aiError);
+
+  const retry = onRetry ? [{ label: 'Retry', onClick: onRetry }] : [];
+  const settings = onOpenSettings ? [{ label: 'Change Key', onClick: onOpenSettings }] : [];
+
+  if (aiError instanceof AuthError) {
+    notifications.notify({ key: 'ai-auth', tone: 'error', title: 'API Key Rejected', message: 'The selected provider refused the request. Check the key and model in Settings.', actions: settings });
+  } else if (aiError instanceof QuotaError) {
+    notifications.notify({
+      key: 'ai-quota',
+      tone: 'warning',
+      title: 'Rate Limit Reached',
+      message: 'The provider is throttling requests. You can retry once the cooldown ends, or switch provider.',
+      countdownUntil: Date.now() + (aiError.retryAfterMs || requestScheduler.getCooldownRemaining() || DEFAULT_QUOTA_COOLDOWN_MS),
+      actions: [...retry.map(action => ({ ...action, waitForCountdown: true })), ...settings.map(action => ({ ...action, label: 'Switch Provider' }))]
+    });
+  } else if (aiError instanceof NetworkError) {
+    notifications.notify({ key: 'ai-network', tone: 'error', title: 'Connection Problem', message: 'The provider could not be reached. Check your connection, or that the local model server is running.', actions: retry });
+  } else if (aiError instanceof RequestError) {
+    notifications.notify({ tone: 'error', title: 'Request Rejected', message: 'The provider did not accept the request. Check the model name in Settings.', actions: settings.map(action => ({ ...action, label: 'Open Settings' })) });
+  } else if (aiError instanceof SchemaError) {
+    notifications.notify({ tone: 'error', title: 'Unusable Response', message: 'The model returned output that could not be turned into questions. Trying again usually works.', actions: retry });
+  } else {
+    notifications.notify({ tone: 'error', title: 'Provider Error', message: 'The provider had a temporary problem.', actions: retry });
+  }
+};
@@ -0,0 +1,50 @@
+import { Question } from "../types";
+
+// Small deterministic PRNG so a question always shuffles the same way for the same seed
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const seedFromId = (id: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+// "Option B", "choices A and C", "answer (D)" and bare "(E)"
+const LETTER_REFERENCE = /\b([Oo]ptions?|[Cc]hoices?|[Aa]nswers?)(\s+)\(?([A-E](?:(?:\s*,\s*|\s+(?:and|or)\s+)[A-E])*)\)?(?![A-Za-z])|\(([A-E])\)/g;
+
+export const remapLetterReferences = (text: string, letterMap: Record<string, string>): string =>
+  text.replace(LETTER_REFERENCE, (match, keyword, space, letters, bare) => {
+    if (bare) return `(${letterMap[bare] || bare})`;
+    const opened = match.slice(keyword.length + space.length).startsWith('(');
+    const remapped = letters.replace(/[A-E]/g, (l: string) => letterMap[l] || l);
+    return `${keyword}${space}${opened ? `(${remapped})` : remapped}`;
+  });
+
+export const shuffleOptions = (q: Question, seed: number = seedFromId(q.id)): Question => {
+  const random = mulberry32(seed);
+  // order[newIndex] = oldIndex (Fisher-Yates)
+  const order = q.options.map((_, idx) => idx);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const letterMap: Record<string, string> = {};
+  order.forEach((oldIdx, newIdx) => { letterMap[String.fromCharCode(65 + oldIdx)] = String.fromCharCode(65 + newIdx); });
+
+  return {
+    ...q,
+    options: order.map(oldIdx => q.options[oldIdx]),
+    correctIndex: order.indexOf(q.correctIndex),
+    explanation: {
+      correct: remapLetterReferences(q.explanation.correct, letterMap),
+      incorrect: remapLetterReferences(q.explanation.incorrect, letterMap),
+      keyLearningPoint: remapLetterReferences(q.explanation.keyLearningPoint, letterMap)
+    }
+  };
+};
@@ -0,0 +1,63 @@
+import { Question, MasteryCard } from "../types";
+
+// Vignettes at or above this Jaccard similarity are treated as the same item
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// 53-bit string hash (cyrb53); stable across sessions and browsers
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Options are sorted so reordering answer choices never changes a question's identity
+export const questionContentId = (q: Pick<Question, 'vignette' | 'options'>): string =>
+  `q_${hashString([normalize(q.vignette), ...q.options.map(normalize).sort()].join('|'))}`;
+
+export const masteryCardContentId = (parentId: string, card: Pick<MasteryCard, 'type' | 'front'>): string =>
+  `c_${hashString(`${parentId}|${card.type}|${normalize(card.front)}`)}`;
+
+export const withContentId = (q: Question): Question => ({ ...q, id: questionContentId(q) });
+
+const shingleCache = new WeakMap<Question, Set<string>>();
+
+const shingles = (q: Question): Set<string> => {
+  const cached = shingleCache.get(q);
+  if (cached) return cached;
+  const words = normalize(q.vignette).split(' ');
+  const result = new Set<string>();
+  for (let i = 0; i + 2 < words.length; i++) result.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  if (result.size === 0) result.add(words.join(' '));
+  shingleCache.set(q, result);
+  return result;
+};
+
+export const vignetteSimilarity = (a: Question, b: Question): number => {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  let shared = 0;
+  sa.forEach(s => { if (sb.has(s)) shared++; });
+  return shared / (sa.size + sb.size - shared);
+};
+
+export const findNearDuplicate = (q: Question, candidates: Iterable<Question>, threshold = NEAR_DUPLICATE_THRESHOLD): Question | null => {
+  for (const candidate of candidates) {
+    if (candidate.id === q.id || vignetteSimilarity(q, candidate) >= threshold) return candidate;
+  }
+  return null;
+};
+
+// Swaps freshly generated items for the library copy they duplicate so history and SRS stay on one id
+export const resolveAgainstLibrary = (questions: Question[], library: Record<string, Question>): Question[] => {
+  const existing = Object.values(library);
+  return questions.map(q => findNearDuplicate(q, existing) || q).filter((q, idx, all) => all.findIndex(other => other.id === q.id) === idx);
+};
@@ -0,0 +1,181 @@
+import { MedicalSpecialty, ExamType, ClinicalComplexity, Question } from "../types";
+import { dbService } from "./databaseService";
+import { generateQuestions, isProviderConfigured, loadProviderSettings } from "./aiService";
+import { findNearDuplicate } from "./questionIdentity";
+import { isDailyBudgetSpent } from "./usageService";
+import { withClassifiedTags } from "./tagTaxonomy";
+
+const POOL_KEY = 'questionPool';
+// One request per idle slot keeps prefetch from competing with the user's own requests
+const REFILL_BATCH_SIZE = 5;
+// Only the most recently used bucket combinations are kept topped up
+const MAX_TRACKED_BUCKETS = 6;
+const IDLE_FALLBACK_MS = 2000;
+// A failed batch (rate limit, network blip) waits this long before retrying, doubling up to the cap
+const RETRY_BASE_MS = 30000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+export interface QuestionPool {
+  buckets: Record<string, Question[]>;
+  // Bucket keys, most recently drawn first
+  tracked: string[];
+}
+
+interface BucketSpec {
+  specialty: MedicalSpecialty;
+  examType: ExamType;
+  complexity: ClinicalComplexity;
+}
+
+const bucketKey = ({ specialty, examType, complexity }: BucketSpec) => `${specialty}|${examType}|${complexity}`;
+
+const parseBucketKey = (key: string): BucketSpec => {
+  const [specialty, examType, complexity] = key.split('|');
+  return { specialty: specialty as MedicalSpecialty, examType: examType as ExamType, complexity: complexity as ClinicalComplexity };
+};
+
+const bucketsFor = (specialties: MedicalSpecialty[], examTypes: ExamType[], complexity: ClinicalComplexity): string[] =>
+  specialties.flatMap(specialty => examTypes.map(examType => bucketKey({ specialty, examType, complexity })));
+
+// Kept in memory after the first read so draws and refills never interleave stale copies
+let cache: QuestionPool | null = null;
+
+const loadPool = async (): Promise<QuestionPool> => {
+  if (!cache) cache = await dbService.get<QuestionPool>(POOL_KEY) || { buckets: {}, tracked: [] };
+  return cache;
+};
+
+const savePool = (pool: QuestionPool) => dbService.set(POOL_KEY, pool);
+
+const isSeen = (q: Question, library: Record<string, Question>) =>
+  !!library[q.id] || !!findNearDuplicate(q, Object.values(library));
+
+export const getPoolSize = async (specialties?: MedicalSpecialty[], examTypes?: ExamType[], complexity?: ClinicalComplexity): Promise<number> => {
+  const pool = await loadPool();
+  const keys = specialties && examTypes && complexity ? bucketsFor(specialties, examTypes, complexity) : Object.keys(pool.buckets);
+  return keys.reduce((acc, key) => acc + (pool.buckets[key]?.length || 0), 0);
+};
+
+export const clearPool = async () => {
+  cache = { buckets: {}, tracked: [] };
+  await savePool(cache);
+};
+
+// Takes up to `count` unseen questions, round-robin across the matching buckets so the block stays mixed.
+// The combination is tracked so idle refills keep it stocked for next time.
+export const drawFromPool = async (
+  specialties: MedicalSpecialty[],
+  examTypes: ExamType[],
+  complexity: ClinicalComplexity,
+  count: number,
+  library: Record<string, Question>
+): Promise<Question[]> => {
+  const pool = await loadPool();
+  const keys = bucketsFor(specialties, examTypes, complexity);
+  pool.tracked = [...keys, ...pool.tracked.filter(key => !keys.includes(key))].slice(0, MAX_TRACKED_BUCKETS);
+
+  const drawn: Question[] = [];
+  let remaining = true;
+  while (drawn.length < count && remaining) {
+    remaining = false;
+    for (const key of keys) {
+      const bucket = pool.buckets[key] || [];
+      // Items seen since they were pooled (e.g. in a live block) are dropped rather than served again
+      while (bucket.length > 0 && isSeen(bucket[0], library)) bucket.shift();
+      const next = bucket.shift();
+      pool.buckets[key] = bucket;
+      if (!next) continue;
+      remaining = true;
+      if (!drawn.some(d => d.id === next.id)) drawn.push(next);
+      if (drawn.length >= count) break;
+    }
+  }
+
+  await savePool(pool);
+  // Items pooled before the tag taxonomy may still carry free-text tags
+  return drawn.map(withClassifiedTags);
+};
+
+// 'added': the batch grew the pool; 'stalled': nothing was added but buckets are still short; 'done': nothing to fill
+export type RefillOutcome = 'added' | 'stalled' | 'done';
+
+// Generates one batch for the emptiest tracked bucket
+export const refillPoolStep = async (library: Record<string, Question>): Promise<RefillOutcome> => {
+  const settings = loadProviderSettings();
+  if (settings.poolTargetSize <= 0 || !isProviderConfigured(settings)) return 'done';
+  // Prefetch is optional, so it never spends past the daily budget; both this and being offline pass with time
+  if (!navigator.onLine || await isDailyBudgetSpent(settings)) return 'stalled';
+
+  const pool = await loadPool();
+  const key = pool.tracked
+    .filter(k => (pool.buckets[k]?.length || 0) < settings.poolTargetSize)
+    .sort((a, b) => (pool.buckets[a]?.length || 0) - (pool.buckets[b]?.length || 0))[0];
+  if (!key) return 'done';
+
+  const { specialty, examType, complexity } = parseBucketKey(key);
+  const missing = Math.min(REFILL_BATCH_SIZE, settings.poolTargetSize - (pool.buckets[key]?.length || 0));
+  const generated = await generateQuestions([specialty], [examType], complexity, missing, undefined, { priority: 'background' });
+
+  const pooled = Object.values(pool.buckets).flat();
+  const fresh = generated.filter(q => !isSeen(q, library) && !findNearDuplicate(q, pooled));
+  pool.buckets[key] = [...(pool.buckets[key] || []), ...fresh];
+  await savePool(pool);
+  // A batch of nothing but duplicates means the model is repeating itself; the schedule backs off before the next
+  return fresh.length > 0 ? 'added' : 'stalled';
+};
+
+const whenIdle = (callback: () => void): (() => void) => {
+  // Safari has no requestIdleCallback
+  if (typeof requestIdleCallback === 'function') {
+    const handle = requestIdleCallback(callback);
+    return () => cancelIdleCallback(handle);
+  }
+  const handle = setTimeout(callback, IDLE_FALLBACK_MS);
+  return () => clearTimeout(handle);
+};
+
+let refilling = false;
+
+// Tops up the pool one batch per idle period until every tracked bucket reaches the target.
+// Returns a cancel function; a batch already in flight still completes and is kept.
+export const schedulePoolRefill = (getLibrary: () => Record<string, Question>): (() => void) => {
+  let cancelled = false;
+  let cancelIdle = () => {};
+  let failures = 0;
+
+  const retryLater = () => {
+    const delay = Math.min(RETRY_BASE_MS * 2 ** failures, RETRY_MAX_MS);
+    failures += 1;
+    const handle = setTimeout(() => { cancelIdle = whenIdle(step); }, delay);
+    cancelIdle = () => clearTimeout(handle);
+    return delay;
+  };
+
+  const step = async () => {
+    if (cancelled) return;
+    // Another schedule's batch is still in flight; check back on the next idle period
+    if (refilling) {
+      cancelIdle = whenIdle(step);
+      return;
+    }
+    refilling = true;
+    try {
+      const outcome = await refillPoolStep(getLibrary());
+      if (cancelled || outcome === 'done') return;
+      if (outcome === 'added') {
+        failures = 0;
+        cancelIdle = whenIdle(step);
+      } else retryLater();
+    } catch (error) {
+      if (!cancelled) console.warn(`Question pool refill failed; retrying in ${Math.round(retryLater() / 1000)}s`, error);
+    } finally {
+      refilling = false;
+    }
+  };
+
+  cancelIdle = whenIdle(step);
+  return () => {
+    cancelled = true;
+    cancelIdle();
+  };
+};
@@ -0,0 +1,132 @@
+import { Question, MasteryCard } from "../types";
+import { classifyTags } from "./tagTaxonomy";
+
+export const OPTION_COUNT = 5;
+const CARD_TYPES: MasteryCard['type'][] = ['Pathophysiology', 'Diagnosis', 'Management', 'Differentiator'];
+
+export interface RejectedItem {
+  index: number;
+  reason: string;
+}
+
+export interface ValidationResult<T> {
+  valid: T[];
+  rejected: RejectedItem[];
+}
+
+class RepairError extends Error {}
+
+const text = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new RepairError(`'${field}' is missing or empty`);
+  return value.trim();
+};
+
+// Models sometimes prefix options with their own lettering ("B. ", "(C) ") which we render ourselves
+const stripOptionLabel = (option: string) => option.replace(/^\(?[A-Ea-e][.):]\s+/, '').trim();
+
+const resolveCorrectIndex = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+    if (/^[A-Ea-e]$/.test(trimmed)) return trimmed.toUpperCase().charCodeAt(0) - 65;
+  }
+  throw new RepairError(`'correctIndex' is not an integer (${JSON.stringify(value)})`);
+};
+
+// Free-text tags from the model are mapped onto the content outline taxonomy; topics it cannot place are kept apart
+export const normalizeTags = (tags: unknown): { tags: string[]; unclassifiedTags?: string[] } =>
+  classifyTags(Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : []);
+
+const repairQuestion = (raw: any): Question => {
+  if (!raw || typeof raw !== 'object') throw new RepairError('item is not an object');
+
+  const vignette = text(raw.vignette, 'vignette');
+  if (!Array.isArray(raw.options)) throw new RepairError("'options' is not an array");
+
+  const keyedIndex = resolveCorrectIndex(raw.correctIndex);
+  if (keyedIndex < 0 || keyedIndex >= raw.options.length) {
+    throw new RepairError(`'correctIndex' ${keyedIndex} is out of range for ${raw.options.length} options`);
+  }
+
+  // Drop blanks and duplicates while tracking where the keyed answer ends up
+  const options: string[] = [];
+  let correctIndex = -1;
+  raw.options.forEach((opt: unknown, idx: number) => {
+    const cleaned = typeof opt === 'string' ? stripOptionLabel(opt) : '';
+    const existing = options.findIndex(o => o.toLowerCase() === cleaned.toLowerCase());
+    if (cleaned && existing === -1) {
+      options.push(cleaned);
+      if (idx === keyedIndex) correctIndex = options.length - 1;
+    } else if (idx === keyedIndex) {
+      if (!cleaned) throw new RepairError('the keyed answer is blank');
+      correctIndex = existing;
+    }
+  });
+
+  if (options.length < OPTION_COUNT) throw new RepairError(`only ${options.length} unique options (need ${OPTION_COUNT})`);
+  if (options.length > OPTION_COUNT) {
+    if (correctIndex >= OPTION_COUNT) throw new RepairError(`keyed answer is option ${correctIndex + 1} of ${options.length}; cannot trim to ${OPTION_COUNT}`);
+    options.length = OPTION_COUNT;
+  }
+
+  const explanation = raw.explanation;
+  if (!explanation || typeof explanation !== 'object') throw new RepairError("'explanation' is missing");
+
+  return {
+    id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : crypto.randomUUID(),
+    vignette,
+    options,
+    correctIndex,
+    explanation: {
+      correct: text(explanation.correct, 'explanation.correct'),
+      incorrect: text(explanation.incorrect, 'explanation.incorrect'),
+      keyLearningPoint: text(explanation.keyLearningPoint, 'explanation.keyLearningPoint')
+    },
+    ...normalizeTags(raw.tags)
+  };
+};
+
+const repairMasteryCard = (raw: any, parentId: string): MasteryCard => {
+  if (!raw || typeof raw !== 'object') throw new RepairError('item is not an object');
+  const typeText = text(raw.type, 'type').toLowerCase();
+  const type = CARD_TYPES.find(t => t.toLowerCase() === typeText);
+  if (!type) throw new RepairError(`unknown card type '${raw.type}'`);
+
+  return {
+    id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : crypto.randomUUID(),
+    parentId,
+    type,
+    front: text(raw.front, 'front'),
+    back: text(raw.back, 'back')
+  };
+};
+
+const validateAll = <T>(items: unknown, repair: (raw: any) => T, isDuplicate: (item: T, accepted: T[]) => boolean): ValidationResult<T> => {
+  const result: ValidationResult<T> = { valid: [], rejected: [] };
+  if (!Array.isArray(items)) {
+    result.rejected.push({ index: -1, reason: 'response is not an array' });
+    return result;
+  }
+  items.forEach((raw, index) => {
+    try {
+      const item = repair(raw);
+      if (isDuplicate(item, result.valid)) throw new RepairError('duplicate of another item in the same response');
+      result.valid.push(item);
+    } catch (e) {
+      if (!(e instanceof RepairError)) throw e;
+      result.rejected.push({ index, reason: e.message });
+    }
+  });
+  return result;
+};
+
+export const validateQuestions = (items: unknown): ValidationResult<Question> =>
+  validateAll(items, repairQuestion, (q, accepted) => accepted.some(a => a.vignette === q.vignette));
+
+export const validateMasteryCards = (items: unknown, parentId: string): ValidationResult<MasteryCard> =>
+  validateAll(items, raw => repairMasteryCard(raw, parentId), (c, accepted) => accepted.some(a => a.front === c.front));
+
+export const logRejections = (label: string, rejected: RejectedItem[]) => {
+  rejected.forEach(({ index, reason }) => console.warn(`Dropped ${label}${index >= 0 ? ` #${index + 1}` : ''}: ${reason}`));
+};
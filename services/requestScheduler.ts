@@ -0,0 +1,102 @@
+import { RequestOptions, RequestPriority } from "../types";
+
+// Provider calls in flight at once across every feature
+const MAX_CONCURRENT = 2;
+// Token bucket: short bursts up to the capacity, then a steady rate
+const BUCKET_CAPACITY = 5;
+const REFILL_PER_MS = 15 / 60000;
+// Background work never takes the last slot or the last token, so a user click is never stuck behind prefetch
+const BACKGROUND_RESERVE = 1;
+
+interface Waiter {
+  priority: RequestPriority;
+  resolve: () => void;
+}
+
+class RequestScheduler {
+  private tokens = BUCKET_CAPACITY;
+  private lastRefill = Date.now();
+  private active = 0;
+  private cooldownUntil = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  async run<T>(task: () => Promise<T>, { priority = 'interactive', signal }: RequestOptions = {}): Promise<T> {
+    await this.acquire(priority, signal);
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  // A rate limit seen by one caller pauses every caller, so retry loops stop guessing independently
+  cooldown(ms: number) {
+    this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + ms);
+    this.pump();
+  }
+
+  getCooldownRemaining(): number {
+    return Math.max(0, this.cooldownUntil - Date.now());
+  }
+
+  private acquire(priority: RequestPriority, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const idx = this.queue.indexOf(waiter);
+        if (idx === -1) return;
+        this.queue.splice(idx, 1);
+        reject(signal!.reason);
+      };
+      // A job's signal spans all its requests, so the listener goes once this one gets its slot
+      const waiter: Waiter = { priority, resolve: () => { signal?.removeEventListener('abort', onAbort); resolve(); } };
+      // Interactive requests jump ahead of any queued background work but stay FIFO among themselves
+      const insertAt = priority === 'interactive' ? this.queue.findIndex(w => w.priority === 'background') : -1;
+      if (insertAt === -1) this.queue.push(waiter);
+      else this.queue.splice(insertAt, 0, waiter);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pump();
+    });
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(BUCKET_CAPACITY, this.tokens + (now - this.lastRefill) * REFILL_PER_MS);
+    this.lastRefill = now;
+  }
+
+  private wakeIn(ms: number) {
+    this.timer = setTimeout(() => this.pump(), Math.ceil(ms));
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (now < this.cooldownUntil) return this.wakeIn(this.cooldownUntil - now);
+
+      const next = this.queue[0];
+      const reserve = next.priority === 'background' ? BACKGROUND_RESERVE : 0;
+      // A finishing request calls pump() again, so a full house needs no timer
+      if (this.active >= MAX_CONCURRENT - reserve) return;
+
+      this.refill();
+      if (this.tokens < 1 + reserve) return this.wakeIn((1 + reserve - this.tokens) / REFILL_PER_MS);
+
+      this.queue.shift();
+      this.tokens -= 1;
+      this.active++;
+      next.resolve();
+    }
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,63 @@
+import { QuizSession, QuestionTiming } from "../types";
+
+const emptyTiming = (): QuestionTiming => ({ timeSpentMs: 0, changes: [] });
+
+const currentTiming = (session: QuizSession): [string | undefined, QuestionTiming] => {
+  const id = session.questions[session.currentQuestionIndex]?.id;
+  return [id, (id && session.timings?.[id]) || emptyTiming()];
+};
+
+// Time on the question on screen, including the visit still in progress
+const elapsedOnCurrent = (session: QuizSession, now: number): number => {
+  const [, timing] = currentTiming(session);
+  return timing.timeSpentMs + (session.visitStartedAt !== undefined ? Math.max(0, now - session.visitStartedAt) : 0);
+};
+
+// Banks the current visit onto the question on screen; call before moving to another question
+export const closeVisit = (session: QuizSession, now = Date.now()): QuizSession => {
+  const [id, timing] = currentTiming(session);
+  if (!id || session.visitStartedAt === undefined) return { ...session, visitStartedAt: now };
+  return {
+    ...session,
+    visitStartedAt: now,
+    timings: { ...session.timings, [id]: { ...timing, timeSpentMs: elapsedOnCurrent(session, now) } }
+  };
+};
+
+// The clock stops while the block is off screen, so a block left open overnight does not read as one slow item
+export const pauseVisit = (session: QuizSession, now = Date.now()): QuizSession =>
+  session.visitStartedAt === undefined ? session : { ...closeVisit(session, now), visitStartedAt: undefined };
+
+export const resumeVisit = (session: QuizSession, now = Date.now()): QuizSession =>
+  session.visitStartedAt === undefined ? { ...session, visitStartedAt: now } : session;
+
+export const recordAnswer = (session: QuizSession, answer: number, now = Date.now()): QuizSession => {
+  const [id, timing] = currentTiming(session);
+  if (!id) return session;
+  const atMs = elapsedOnCurrent(session, now);
+  const previous = timing.changes.at(-1)?.to ?? timing.firstChoice;
+
+  let next = timing;
+  if (previous === undefined) next = { ...timing, firstAnswerMs: atMs, firstChoice: answer };
+  else if (previous !== answer) next = { ...timing, changes: [...timing.changes, { from: previous, to: answer, atMs }] };
+  return { ...session, timings: { ...session.timings, [id]: next } };
+};
+
+// A suspended block keeps its place, but neither its per-question clock nor its timed deadline runs
+export const suspendBlock = (session: QuizSession, now = Date.now()): QuizSession =>
+  ({ ...pauseVisit(session, now), suspendedAt: now });
+
+// Resumes paused; the visit restarts once the block is back on screen
+export const unsuspendBlock = (session: QuizSession, now = Date.now()): QuizSession => {
+  if (session.suspendedAt === undefined) return session;
+  const away = Math.max(0, now - session.suspendedAt);
+  return {
+    ...session,
+    suspendedAt: undefined,
+    suspendedMs: (session.suspendedMs || 0) + away,
+    deadline: session.deadline === undefined ? undefined : session.deadline + away
+  };
+};
+
+export const blockElapsedMs = (session: QuizSession, now = Date.now()): number =>
+  now - session.startTime - (session.suspendedMs || 0);
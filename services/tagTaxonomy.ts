@@ -0,0 +1,114 @@
+import { ExamType, TaxonomyDimension, TaxonomyNode } from "../types";
+
+export const TAXONOMY_DIMENSIONS: { value: TaxonomyDimension; label: string }[] = [
+  { value: 'system', label: 'Systems' },
+  { value: 'discipline', label: 'Disciplines' },
+  { value: 'task', label: 'Physician Tasks' }
+];
+
+// Systems, disciplines and physician tasks from the USMLE content outline (Step 1 and Step 2 CK)
+export const TAXONOMY: TaxonomyNode[] = [
+  { id: 'general-principles', label: 'General Principles', dimension: 'system', synonyms: ['general principles', 'foundational science'] },
+  { id: 'immune', label: 'Immune System', dimension: 'system', synonyms: ['immune', 'allergy', 'allergic', 'anaphylaxis', 'immunodeficiency', 'transplant', 'transplantation'] },
+  { id: 'blood', label: 'Blood & Lymphoreticular System', dimension: 'system', synonyms: ['hematology', 'hematologic', 'anemia', 'coagulation', 'bleeding', 'lymphoma', 'leukemia', 'oncology', 'hematology oncology'] },
+  { id: 'behavioral', label: 'Behavioral Health', dimension: 'system', synonyms: ['psychiatry', 'psychiatric', 'behavioral health', 'mental health', 'depression', 'anxiety', 'substance use', 'addiction'] },
+  { id: 'nervous', label: 'Nervous System & Special Senses', dimension: 'system', synonyms: ['neurology', 'neurologic', 'neuro', 'nervous system', 'stroke', 'seizure', 'seizures', 'ophthalmology', 'eye', 'ent', 'otolaryngology', 'special senses'] },
+  { id: 'skin', label: 'Skin & Subcutaneous Tissue', dimension: 'system', synonyms: ['dermatology', 'skin', 'derm', 'rash', 'burns'] },
+  { id: 'musculoskeletal', label: 'Musculoskeletal System', dimension: 'system', synonyms: ['musculoskeletal', 'orthopedics', 'orthopaedics', 'ortho', 'rheumatology', 'fracture', 'fractures', 'sports medicine'] },
+  { id: 'cardiovascular', label: 'Cardiovascular System', dimension: 'system', synonyms: ['cardiology', 'cardiovascular', 'cardiac', 'heart', 'coronary', 'arrhythmia', 'arrhythmias', 'hypertension', 'vascular'] },
+  { id: 'respiratory', label: 'Respiratory System', dimension: 'system', synonyms: ['pulmonology', 'pulmonary', 'respiratory', 'lung', 'asthma', 'copd', 'pneumonia', 'critical care'] },
+  { id: 'renal', label: 'Renal & Urinary System', dimension: 'system', synonyms: ['nephrology', 'renal', 'kidney', 'urology', 'urinary', 'electrolytes', 'acid base'] },
+  { id: 'pregnancy', label: 'Pregnancy, Childbirth & Puerperium', dimension: 'system', synonyms: ['obstetrics', 'obstetric', 'pregnancy', 'prenatal', 'antepartum', 'intrapartum', 'postpartum', 'labor and delivery'] },
+  { id: 'female-reproductive', label: 'Female Reproductive System & Breast', dimension: 'system', synonyms: ['gynecology', 'gynecologic', 'breast', 'female reproductive', 'menstrual', 'contraception', 'infertility'] },
+  { id: 'male-reproductive', label: 'Male Reproductive System', dimension: 'system', synonyms: ['male reproductive', 'prostate', 'testicular', 'erectile dysfunction'] },
+  { id: 'endocrine', label: 'Endocrine System', dimension: 'system', synonyms: ['endocrinology', 'endocrine', 'diabetes', 'thyroid', 'adrenal', 'pituitary'] },
+  { id: 'gastrointestinal', label: 'Gastrointestinal System', dimension: 'system', synonyms: ['gastroenterology', 'gastrointestinal', 'gi', 'hepatology', 'liver', 'pancreas', 'pancreatitis', 'biliary'] },
+  { id: 'multisystem', label: 'Multisystem Processes & Disorders', dimension: 'system', synonyms: ['multisystem', 'sepsis', 'shock', 'trauma', 'toxicology', 'poisoning', 'nutrition', 'geriatrics'] },
+  { id: 'biostatistics', label: 'Biostatistics & Epidemiology', dimension: 'system', synonyms: ['biostatistics', 'biostats', 'statistics', 'epidemiology', 'population health', 'study design', 'screening tests'] },
+  { id: 'social-sciences', label: 'Social Sciences', dimension: 'system', synonyms: ['social sciences', 'ethics', 'medical ethics', 'communication', 'patient safety', 'medicolegal'] },
+
+  { id: 'anatomy', label: 'Anatomy', dimension: 'discipline', synonyms: ['anatomy', 'embryology'] },
+  { id: 'behavioral-sciences', label: 'Behavioral Sciences', dimension: 'discipline', synonyms: ['behavioral science', 'behavioral sciences', 'behavioral medicine'] },
+  { id: 'biochemistry', label: 'Biochemistry & Nutrition', dimension: 'discipline', synonyms: ['biochemistry', 'biochem', 'metabolism', 'vitamins'] },
+  { id: 'genetics', label: 'Genetics', dimension: 'discipline', synonyms: ['genetics', 'genetic', 'inherited'] },
+  { id: 'histology', label: 'Histology & Cell Biology', dimension: 'discipline', synonyms: ['histology', 'cell biology'] },
+  { id: 'immunology', label: 'Immunology', dimension: 'discipline', synonyms: ['immunology', 'vaccines', 'vaccination', 'immunization', 'immunizations'] },
+  { id: 'microbiology', label: 'Microbiology', dimension: 'discipline', synonyms: ['microbiology', 'infectious disease', 'infectious diseases', 'infection', 'infections', 'bacteriology', 'virology', 'antibiotics', 'antimicrobials'] },
+  { id: 'pathology', label: 'Pathology', dimension: 'discipline', synonyms: ['pathology', 'pathophysiology', 'neoplasia'] },
+  { id: 'pharmacology', label: 'Pharmacology', dimension: 'discipline', synonyms: ['pharmacology', 'pharm', 'drugs', 'adverse effects', 'antibiotics', 'antimicrobials'] },
+  { id: 'physiology', label: 'Physiology', dimension: 'discipline', synonyms: ['physiology'] },
+  { id: 'medicine', label: 'Medicine', dimension: 'discipline', synonyms: ['internal medicine', 'family medicine', 'general medicine'] },
+  { id: 'surgery', label: 'Surgery', dimension: 'discipline', synonyms: ['surgery', 'surgical', 'trauma', 'acute abdomen'] },
+  { id: 'pediatrics', label: 'Pediatrics', dimension: 'discipline', synonyms: ['pediatrics', 'pediatric', 'paediatrics', 'neonatology', 'neonatal'] },
+  { id: 'obgyn', label: 'Obstetrics & Gynecology', dimension: 'discipline', synonyms: ['ob gyn', 'obgyn', 'obstetrics', 'gynecology'] },
+  { id: 'psychiatry', label: 'Psychiatry', dimension: 'discipline', synonyms: ['psychiatry'] },
+
+  { id: 'foundational-science', label: 'Applying Foundational Science Concepts', dimension: 'task', synonyms: ['mechanism', 'mechanism of action', 'foundational science concepts'] },
+  { id: 'diagnosis', label: 'Diagnosis', dimension: 'task', synonyms: ['diagnosis', 'differential diagnosis', 'history and physical', 'physical exam', 'physical examination'] },
+  { id: 'diagnostic-studies', label: 'Laboratory & Diagnostic Studies', dimension: 'task', synonyms: ['diagnostic studies', 'diagnostic testing', 'workup', 'imaging', 'laboratory studies', 'lab interpretation'] },
+  { id: 'prognosis', label: 'Prognosis & Outcome', dimension: 'task', synonyms: ['prognosis', 'outcome', 'complications'] },
+  { id: 'prevention', label: 'Health Maintenance & Prevention', dimension: 'task', synonyms: ['prevention', 'preventive medicine', 'health maintenance', 'screening', 'vaccines', 'vaccination', 'immunization', 'immunizations'] },
+  { id: 'pharmacotherapy', label: 'Pharmacotherapy', dimension: 'task', synonyms: ['pharmacotherapy', 'drug therapy', 'medical management'] },
+  { id: 'clinical-interventions', label: 'Clinical Interventions', dimension: 'task', synonyms: ['clinical interventions', 'procedures', 'resuscitation', 'emergency management'] },
+  { id: 'management', label: 'Management', dimension: 'task', synonyms: ['management', 'next best step', 'next step in management'] },
+  { id: 'professionalism', label: 'Professionalism & Ethics', dimension: 'task', synonyms: ['professionalism', 'ethics', 'medical ethics', 'informed consent', 'confidentiality', 'medicolegal'] },
+  { id: 'systems-based-practice', label: 'Systems-Based Practice & Patient Safety', dimension: 'task', synonyms: ['systems based practice', 'patient safety', 'quality improvement', 'medical errors'] },
+  { id: 'evidence-based-medicine', label: 'Evidence-Based Medicine', dimension: 'task', synonyms: ['evidence based medicine', 'interpretation of medical literature', 'study design'] }
+];
+
+// Labels kept on a question for filtering but never counted as content; exam type and "Board Style" add nothing
+// the block does not already record, so they are dropped instead
+export const META_TAGS = ['Remediation'];
+
+export const isMetaTag = (tag: string) => META_TAGS.includes(tag);
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const DISCARDED_KEYS = ['Board Style', ...Object.values(ExamType)].map(normalizeKey);
+
+const labelIndex = new Map(TAXONOMY.map(node => [normalizeKey(node.label), node]));
+
+// A synonym matches as a whole word or phrase anywhere in the tag, so "Acute Coronary Syndrome" still lands on
+// the cardiovascular system
+const matchesSynonym = (key: string, synonym: string) => ` ${key} `.includes(` ${synonym} `);
+
+// Maps one free-text tag onto taxonomy labels. A tag may name several axes at once ("Cardiac Pharmacology");
+// tags that name nothing in the outline map to nothing.
+export const taxonomyLabelsFor = (tag: string): string[] => {
+  const key = normalizeKey(tag);
+  if (!key) return [];
+  const meta = META_TAGS.find(m => normalizeKey(m) === key);
+  if (meta) return [meta];
+  const exact = labelIndex.get(key);
+  if (exact) return [exact.label];
+  return TAXONOMY.filter(node => node.synonyms.some(s => matchesSynonym(key, s))).map(node => node.label);
+};
+
+export const normalizeTaxonomyTags = (tags: string[]): string[] => [...new Set(tags.flatMap(taxonomyLabelsFor))];
+
+// Splits free-text tags into taxonomy labels and the specific topics the outline cannot place, which are kept
+// rather than lost. Only the exam-type and "Board Style" labels are dropped outright.
+export const classifyTags = (tags: string[], unclassified: string[] = []): { tags: string[]; unclassifiedTags?: string[] } => {
+  const kept = new Map(unclassified.map(tag => [normalizeKey(tag), tag]));
+  tags.forEach(tag => {
+    const cleaned = tag.replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+    const key = normalizeKey(cleaned);
+    if (key && taxonomyLabelsFor(cleaned).length === 0 && !DISCARDED_KEYS.includes(key) && !kept.has(key)) kept.set(key, cleaned);
+  });
+  return { tags: normalizeTaxonomyTags(tags), unclassifiedTags: kept.size ? [...kept.values()] : undefined };
+};
+
+export const withClassifiedTags = <T extends { tags?: string[]; unclassifiedTags?: string[] }>(item: T): T =>
+  ({ ...item, ...classifyTags(item.tags || [], item.unclassifiedTags) });
+
+const nodeByLabel = new Map(TAXONOMY.map(node => [node.label, node]));
+
+export const taxonomyNode = (label: string): TaxonomyNode | undefined => nodeByLabel.get(label);
+
+// Content nodes for analytics; tags stored before normalization are mapped on the fly and meta-tags left out
+export const contentNodes = (tags: string[] | undefined): TaxonomyNode[] =>
+  normalizeTaxonomyTags(tags || []).map(taxonomyNode).filter((node): node is TaxonomyNode => !!node);
+
+export const TAXONOMY_PROMPT = TAXONOMY_DIMENSIONS
+  .map(d => `${d.label}: ${TAXONOMY.filter(n => n.dimension === d.value).map(n => `'${n.label}'`).join(', ')}`)
+  .join('\n');
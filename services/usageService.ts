@@ -0,0 +1,135 @@
+import { ProviderSettings, UsageFeature, UsageRecord } from "../types";
+import { dbService } from "./databaseService";
+
+const USAGE_KEY = 'usageLog';
+const RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rough heuristic for providers that do not report token counts
+const CHARS_PER_TOKEN = 4;
+
+// Cost per unit (question, card set, export item) until there is history to average over
+const DEFAULT_TOKENS_PER_UNIT: Record<UsageFeature, number> = {
+  questions: 900,
+  remediation: 900,
+  masteryCards: 1200,
+  deepDive: 1500,
+  studyPlan: 2500,
+  sessionSummary: 400,
+  studyGuide: 800
+};
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  questions: 'Block Generation',
+  remediation: 'Remediation',
+  masteryCards: 'Mastery Cards',
+  deepDive: 'Deep Dives',
+  studyPlan: 'Study Plans',
+  sessionSummary: 'Summary Exports',
+  studyGuide: 'Study Guide Exports'
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  avgLatencyMs: number;
+}
+
+export interface BudgetWarning {
+  estimatedTokens: number;
+  remainingTokens: number;
+  budgetLabel: string;
+}
+
+let cache: UsageRecord[] = [];
+// Shared by every caller, so a call made while the first read is in flight cannot overwrite records added meanwhile
+let loadPromise: Promise<void> | null = null;
+
+const loadLog = async (): Promise<UsageRecord[]> => {
+  loadPromise ??= dbService.get<UsageRecord[]>(USAGE_KEY).then(
+    stored => { cache = stored || []; },
+    // A failed read is retried by the next caller instead of being cached
+    error => { loadPromise = null; throw error; }
+  );
+  await loadPromise;
+  return cache;
+};
+
+const startOfToday = () => new Date().setHours(0, 0, 0, 0);
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000000 ? `${(tokens / 1000000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const recordUsage = async (record: UsageRecord) => {
+  await loadLog();
+  const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+  // Re-read the cache after the single load resolves so concurrent calls never drop each other's records
+  cache = [...cache.filter(r => r.timestamp >= cutoff), record];
+  await dbService.set(USAGE_KEY, cache);
+};
+
+export const getUsageLog = async (): Promise<UsageRecord[]> => [...await loadLog()];
+
+export const totalsOf = (records: UsageRecord[]): UsageTotals => {
+  const inputTokens = records.reduce((acc, r) => acc + r.inputTokens, 0);
+  const outputTokens = records.reduce((acc, r) => acc + r.outputTokens, 0);
+  return {
+    calls: records.length,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    avgLatencyMs: records.length ? Math.round(records.reduce((acc, r) => acc + r.latencyMs, 0) / records.length) : 0
+  };
+};
+
+export const todaysRecords = (log: UsageRecord[], feature?: UsageFeature): UsageRecord[] => {
+  const since = startOfToday();
+  return log.filter(r => r.timestamp >= since && (!feature || r.feature === feature));
+};
+
+// Oldest first, one entry per calendar day including days with no usage
+export const summarizeByDay = (log: UsageRecord[], days = 7): { day: string; tokens: number }[] =>
+  Array.from({ length: days }, (_, i) => {
+    const start = startOfToday() - (days - 1 - i) * DAY_MS;
+    const records = log.filter(r => r.timestamp >= start && r.timestamp < start + DAY_MS);
+    return { day: new Date(start).toLocaleDateString(undefined, { weekday: 'short' }), tokens: totalsOf(records).totalTokens };
+  });
+
+export const summarizeByFeature = (records: UsageRecord[]): Partial<Record<UsageFeature, UsageTotals>> => {
+  const grouped: Partial<Record<UsageFeature, UsageRecord[]>> = {};
+  records.forEach(r => { (grouped[r.feature] ||= []).push(r); });
+  return Object.fromEntries(Object.entries(grouped).map(([feature, group]) => [feature, totalsOf(group!)]));
+};
+
+export const estimateOperationTokens = (log: UsageRecord[], feature: UsageFeature, units: number): number => {
+  const history = log.filter(r => r.feature === feature && r.units > 0);
+  const unitsSeen = history.reduce((acc, r) => acc + r.units, 0);
+  const perUnit = unitsSeen > 0 ? totalsOf(history).totalTokens / unitsSeen : DEFAULT_TOKENS_PER_UNIT[feature];
+  return Math.ceil(perUnit * units);
+};
+
+// Returns the tighter of the daily and per-feature budgets when the operation would overrun it
+export const checkBudget = async (feature: UsageFeature, units: number, settings: ProviderSettings): Promise<BudgetWarning | null> => {
+  if (settings.providerId === 'fixture' || units <= 0) return null;
+  const log = await loadLog();
+  const estimatedTokens = estimateOperationTokens(log, feature, units);
+
+  const limits: { remaining: number; label: string }[] = [];
+  if (settings.dailyTokenBudget > 0) {
+    limits.push({ remaining: settings.dailyTokenBudget - totalsOf(todaysRecords(log)).totalTokens, label: 'daily' });
+  }
+  const featureBudget = settings.featureBudgets[feature] || 0;
+  if (featureBudget > 0) {
+    limits.push({ remaining: featureBudget - totalsOf(todaysRecords(log, feature)).totalTokens, label: USAGE_FEATURE_LABELS[feature] });
+  }
+
+  const tightest = limits.sort((a, b) => a.remaining - b.remaining)[0];
+  if (!tightest || estimatedTokens <= tightest.remaining) return null;
+  return { estimatedTokens, remainingTokens: Math.max(0, tightest.remaining), budgetLabel: tightest.label };
+};
+
+export const isDailyBudgetSpent = async (settings: ProviderSettings): Promise<boolean> =>
+  settings.dailyTokenBudget > 0 && totalsOf(todaysRecords(await loadLog())).totalTokens >= settings.dailyTokenBudget;
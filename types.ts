@@ -37,6 +37,10 @@ export interface Question {
     keyLearningPoint: string;
   };
   tags?: string[];
+  // Specific topics the taxonomy has no node for (e.g. "Sarcoidosis"), kept as written
+  unclassifiedTags?: string[];
+  // The user's own note, kept with every copy of the question (library, bookmarks, sessions)
+  note?: string;
 }
 
 export interface MasteryCard {
@@ -47,8 +51,86 @@ export interface MasteryCard {
   back: string;
 }
 
+export type Confidence = 'sure' | 'unsure' | 'guess';
+
+export type LabCategory = 'Serum' | 'Hematologic' | 'Cerebrospinal Fluid' | 'Urine' | 'Blood Gases';
+
+export interface LabValue {
+  id: string;
+  name: string;
+  category: LabCategory;
+  conventional: string;
+  si: string;
+  // How vignettes name the test, matched case-insensitively
+  aliases: string[];
+}
+
+// Dimensions of the USMLE content outline; a question is tagged on each axis independently
+export type TaxonomyDimension = 'system' | 'discipline' | 'task';
+
+export interface TaxonomyNode {
+  id: string;
+  label: string;
+  dimension: TaxonomyDimension;
+  // Lower-case words and phrases that name the node in free-text tags
+  synonyms: string[];
+}
+
+export interface LabMention {
+  start: number;
+  end: number;
+  labId: string;
+}
+
+// Character offsets into the vignette, end exclusive
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface QuestionAnnotations {
+  struckOptions: number[];
+  highlights: HighlightRange[];
+}
+
+export interface AnswerChange {
+  from: number;
+  to: number;
+  // Time on the question when the change was made
+  atMs: number;
+}
+
+export interface QuestionTiming {
+  // Summed over every visit to the question
+  timeSpentMs: number;
+  firstAnswerMs?: number;
+  firstChoice?: number;
+  changes: AnswerChange[];
+}
+
+// Where a custom block draws its already-seen questions from
+export type LibrarySource = 'incorrect' | 'omitted' | 'flagged' | 'unused' | 'bookmarked' | 'all';
+
+export interface LibraryBlockOptions {
+  source: LibrarySource;
+  // Epoch ms; 'unused' keeps questions not answered in any block since then
+  unusedSince?: number;
+  tag?: string;
+  specialty?: MedicalSpecialty;
+  // Fraction of the block taken from the library (0-1); the rest is generated
+  share: number;
+}
+
+// Tutor reveals each explanation on answering; timed mirrors the exam and holds them until the block is submitted
+export type QuizMode = 'tutor' | 'timed';
+
 export interface QuizSession {
+  id?: string;
+  mode?: QuizMode;
+  // Timed blocks auto-submit at this epoch ms
+  deadline?: number;
   questions: Question[];
+  pendingCount?: number;
   currentQuestionIndex: number;
   userAnswers: number[];
   startTime: number;
@@ -56,8 +138,54 @@ export interface QuizSession {
   examTypes: ExamType[];
   complexity: ClinicalComplexity;
   topics?: string;
+  // Skipped items come back once the end of the block is reached
   skippedIds?: string[];
+  returningToSkipped?: boolean;
+  flaggedIds?: string[];
+  // Set once the pre-submit pass over flagged items has begun; Next then walks only flagged items
+  reviewingFlagged?: boolean;
   autoReinforce: boolean;
+  // Keyed by question id
+  timings?: Record<string, QuestionTiming>;
+  annotations?: Record<string, QuestionAnnotations>;
+  confidence?: Record<string, Confidence>;
+  // Start of the current visit to the question on screen; unset while the block is paused
+  visitStartedAt?: number;
+  // The answer on screen at currentQuestionIndex, which tutor mode only commits on Continue
+  selection?: { questionIndex: number; answer: number };
+  // Set while the block sits in the suspended list; suspendedMs totals every suspension so far
+  suspendedAt?: number;
+  suspendedMs?: number;
+  // Set on the blocks of a simulated exam
+  examAttemptId?: string;
+  examBlockNumber?: number;
+  // The specialty each item was generated for, where a block has a fixed specialty mix
+  itemSpecialties?: Record<string, MedicalSpecialty>;
+  // Remediation items added by auto/manual reinforce, keyed by their id, valued by the id of the missed question
+  remediationOf?: Record<string, string>;
+}
+
+// One item of a completed block, in block order
+export interface SessionDetail {
+  questionId: string;
+  isCorrect: boolean;
+  selectedIndex?: number;
+  timeSpentMs?: number;
+  firstAnswerMs?: number;
+  answerChanges?: AnswerChange[];
+  flagged?: boolean;
+  skipped?: boolean;
+  omitted?: boolean;
+  confidence?: Confidence;
+  specialty?: MedicalSpecialty;
+  // 0-based order within the block
+  position?: number;
+  // As tagged when answered; library tags may change later
+  tags?: string[];
+  unclassifiedTags?: string[];
+  // Set on remediation items: the question whose miss generated them
+  remediationOf?: string;
+  annotations?: QuestionAnnotations;
 }
 
 export interface HistoricalSession {
@@ -65,14 +193,53 @@ export interface HistoricalSession {
   timestamp: number;
   totalQuestions: number;
   correctAnswers: number;
+  // Left unanswered; counted in totalQuestions but not as answered wrong
+  omittedAnswers?: number;
   timeTakenMs: number;
   specialties: MedicalSpecialty[];
   examTypes: ExamType[];
   complexity?: ClinicalComplexity;
-  details?: {
-    questionId: string;
-    isCorrect: boolean;
-  }[];
+  mode?: QuizMode;
+  examAttemptId?: string;
+  details?: SessionDetail[];
+  // Kept in the history list but left out of lifetime stats and analytics
+  excludedFromAnalytics?: boolean;
+}
+
+export interface HistoryFilter {
+  // Inclusive calendar days, as yyyy-mm-dd
+  from?: string;
+  to?: string;
+  specialty?: MedicalSpecialty;
+  examType?: ExamType;
+  complexity?: ClinicalComplexity;
+}
+
+export interface ExamItem {
+  question: Question;
+  specialty: MedicalSpecialty;
+}
+
+// A simulated test day: timed blocks with a fixed specialty mix and one break budget shared between them
+export interface ExamAttempt {
+  id: string;
+  examType: ExamType;
+  complexity: ClinicalComplexity;
+  blockCount: number;
+  blockSize: number;
+  // Items per specialty in every block
+  blockMix: Partial<Record<MedicalSpecialty, number>>;
+  // Generated ahead of time, so each block starts complete and shuffled
+  prepared: ExamItem[];
+  preparedFor: number;
+  breakBudgetMs: number;
+  breakUsedMs: number;
+  // The break clock runs from the end of one block to the start of the next
+  breakStartedAt?: number;
+  // History entries of the finished blocks, in order
+  blockSessionIds: string[];
+  startedAt: number;
+  completedAt?: number;
 }
 
 export interface SRSState {
@@ -102,6 +269,8 @@ export interface LifetimeStats {
   totalHours: number;
   avgAccuracy: number;
   firstSessionDate: number;
+  // Unrounded total behind totalHours, so incremental updates do not accumulate rounding
+  totalTimeMs?: number;
 }
 
 export interface Achievement {
@@ -115,3 +284,83 @@ export interface GamificationStats {
   streak: number;
   unlockedAchievements: string[];
 }
+
+export type ShortcutAction =
+  | 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'optionE'
+  | 'submit' | 'next' | 'prev' | 'flag' | 'strike' | 'bookmark' | 'labs' | 'help' | 'flip'
+  | 'rateAgain' | 'rateHard' | 'rateGood' | 'rateEasy';
+
+// Keys are KeyboardEvent.key values, single characters lower-cased
+export type KeyBindings = Record<ShortcutAction, string[]>;
+
+export type ProviderId = 'gemini' | 'local' | 'fixture';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  geminiApiKey: string;
+  geminiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  localApiKey: string;
+  // Unseen questions kept ready per specialty / exam type / complexity; 0 disables prefetch
+  poolTargetSize: number;
+  // Token budgets per calendar day; 0 means unlimited
+  dailyTokenBudget: number;
+  featureBudgets: Partial<Record<UsageFeature, number>>;
+}
+
+export type UsageFeature = 'questions' | 'remediation' | 'masteryCards' | 'deepDive' | 'studyPlan' | 'sessionSummary' | 'studyGuide';
+
+export interface UsageRecord {
+  timestamp: number;
+  feature: UsageFeature;
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  // Questions (or other items) the call produced, used to estimate the cost of future operations
+  units: number;
+  // Set when the provider reported no token counts and they were estimated from text length
+  estimated?: boolean;
+}
+
+// User-initiated work is scheduled ahead of background work such as remediation and prefetch
+export type RequestPriority = 'interactive' | 'background';
+
+// Per-call controls passed from the job queue down to the transport
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number) => void;
+  priority?: RequestPriority;
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  generateQuestions: (specialties: MedicalSpecialty[], examTypes: ExamType[], complexity: ClinicalComplexity, count: number, topics?: string) => Promise<Question[]>;
+  generateSimilarQuestions: (failedQuestion: Question, examTypes: ExamType[], complexity: ClinicalComplexity, count: number, userFocus?: string) => Promise<Question[]>;
+  generateMasteryCards: (question: Question) => Promise<MasteryCard[]>;
+  deepDiveExplanation: (question: Question) => Promise<string>;
+  generateStudyPlan: (performanceSummary: string, examDate: string, dailyHours: number, targetExam: string) => Promise<StudyPlan>;
+  generateSessionSummary: (questions: Question[]) => Promise<string>;
+  generateStudyGuide: (questions: Question[]) => Promise<string>;
+}
+
+export type JobKind = 'block' | 'examBlock' | 'remediation' | 'mastery' | 'deepDive' | 'export';
+
+export type JobStatus = 'queued' | 'running' | 'failed';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  // 0-100; stays at 0 for single-request jobs until they finish
+  progress: number;
+  // Backoff retries inside the current attempt plus any manual retries
+  retries: number;
+  error?: string;
+  payload: any;
+  createdAt: number;
+}